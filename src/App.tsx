@@ -1,8 +1,57 @@
 import { useState, useEffect, useRef } from "react";
 import { NavigationHeader } from "./components/InteractiveFrame22";
 import MentorSignup from "./components/MentorSignup";
+import MenteeSignup from "./components/MenteeSignup";
+import SpeedDatingBallot from "./components/SpeedDatingBallot";
+import AdminDashboard from "./components/admin/AdminDashboard";
+import CheckInPage from "./components/CheckInPage";
+import LeaderboardPage from "./components/LeaderboardPage";
+import FamilyPage from "./components/FamilyPage";
+import MySignupPage from "./components/MySignupPage";
+
+// Pages rendered in-app; everything else lives on CampusGroups
+const PAGES: Record<string, (props: { onNavigate: (page: string) => void }) => JSX.Element> = {
+  'mentor-signup': MentorSignup,
+  'mentee-signup': MenteeSignup,
+  'speed-dating': SpeedDatingBallot,
+  leaderboard: LeaderboardPage,
+  'my-signup': MySignupPage,
+};
+
+// Officers reach the dashboard directly at /admin; it has its own layout
+const isAdminRoute = () => window.location.pathname.replace(/\/+$/, '') === '/admin';
+
+// Event QR codes open /check-in/<event id>?code=...
+const checkInEventId = () => {
+  const match = window.location.pathname.match(/^\/check-in\/(\d+)\/?$/);
+  return match ? Number(match[1]) : null;
+};
+
+// Family pages are shared as /family/<family id>
+const familyRouteId = () => {
+  const match = window.location.pathname.match(/^\/family\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
 
 export default function App() {
+  if (isAdminRoute()) {
+    return <AdminDashboard />;
+  }
+
+  const eventId = checkInEventId();
+  if (eventId !== null) {
+    return <CheckInPage eventId={eventId} code={new URLSearchParams(window.location.search).get('code') ?? ''} />;
+  }
+
+  const familyId = familyRouteId();
+  if (familyId !== null) {
+    return <FamilyPage familyId={familyId} />;
+  }
+
+  return <PublicSite />;
+}
+
+function PublicSite() {
   const [currentPage, setCurrentPage] = useState('mentor-signup');
   const [scrollY, setScrollY] = useState(0);
   const [headerHeight, setHeaderHeight] = useState(0);
@@ -46,7 +95,12 @@ export default function App() {
   }, []);
 
   const handleNavigation = (page: string) => {
-    // Since we only have mentor signup, we can handle external navigation here
+    if (page in PAGES) {
+      setCurrentPage(page);
+      window.scrollTo({ top: 0 });
+      return;
+    }
+
     if (page === 'home') {
       window.location.href = 'https://campusgroups.rit.edu/acs/home/';
     } else if (page === 'about-us') {
@@ -58,10 +112,10 @@ export default function App() {
     } else if (page === 'tinikling') {
       window.location.href = 'https://campusgroups.rit.edu/ACS/tinikling/';
     }
-    // mentor-signup stays on current page
-    setCurrentPage('mentor-signup');
   };
 
+  const CurrentPage = PAGES[currentPage] ?? MentorSignup;
+
   // Use default height of 77px if header height hasn't been calculated yet
   const effectiveHeaderHeight = headerHeight || 77;
   
@@ -111,7 +165,7 @@ export default function App() {
         <div style={{ height: `${effectiveHeaderHeight}px` }} />
       )}
       
-      <MentorSignup />
+      <CurrentPage onNavigate={handleNavigation} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  AVAILABILITY_DAYS,
+  AVAILABILITY_HOURS,
+  AvailabilityDay,
+  DAY_LABELS,
+  slotKey,
+} from "../utils/availability";
+
+interface AvailabilityGridProps {
+  id?: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  invalid?: boolean;
+  describedBy?: string;
+}
+
+const hourLabel = (hour: number) => `${hour % 12 === 0 ? 12 : hour % 12} ${hour < 12 ? 'AM' : 'PM'}`;
+
+// Weekly grid of one-hour slots. Press on a slot and drag to paint: starting on an empty
+// slot selects everything dragged over, starting on a selected one clears it.
+export default function AvailabilityGrid({ id, value, onChange, invalid, describedBy }: AvailabilityGridProps) {
+  // true while painting selections, false while clearing, null when not dragging
+  const [painting, setPainting] = useState<boolean | null>(null);
+  const selected = new Set(value);
+  // Latest selection for handlers fired between renders during a fast drag
+  const latest = useRef(selected);
+  latest.current = selected;
+
+  useEffect(() => {
+    if (painting === null) return;
+    const stop = () => setPainting(null);
+    window.addEventListener('pointerup', stop);
+    window.addEventListener('pointercancel', stop);
+    return () => {
+      window.removeEventListener('pointerup', stop);
+      window.removeEventListener('pointercancel', stop);
+    };
+  }, [painting]);
+
+  const setSlot = (slot: string, on: boolean) => {
+    const next = new Set(latest.current);
+    if (on) {
+      next.add(slot);
+    } else {
+      next.delete(slot);
+    }
+    latest.current = next;
+    onChange([...next]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, slot: string) => {
+    e.preventDefault();
+    // Touch pointers are captured by the first element; release so the drag reaches other slots
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    const on = !latest.current.has(slot);
+    setPainting(on);
+    setSlot(slot, on);
+  };
+
+  const cell = (day: AvailabilityDay, hour: number) => {
+    const slot = slotKey(day, hour);
+    const isSelected = selected.has(slot);
+    return (
+      <td key={slot} className="p-0.5">
+        <button
+          type="button"
+          aria-label={`${DAY_LABELS[day]} ${hourLabel(hour)}`}
+          aria-pressed={isSelected}
+          onPointerDown={(e) => handlePointerDown(e, slot)}
+          onPointerEnter={() => painting !== null && setSlot(slot, painting)}
+          // Keyboard users toggle one slot at a time
+          onClick={(e) => e.detail === 0 && setSlot(slot, !isSelected)}
+          className={`block w-full h-6 rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-[#8bd4e0] ${
+            isSelected ? 'bg-[#8bd4e0] hover:bg-[#7bc7d3]' : 'bg-gray-100 hover:bg-gray-200'
+          }`}
+        />
+      </td>
+    );
+  };
+
+  return (
+    <div
+      id={id}
+      role="group"
+      aria-invalid={invalid ? 'true' : 'false'}
+      aria-describedby={describedBy}
+      className={`overflow-x-auto rounded-xl border-2 p-2 select-none touch-none ${
+        invalid ? 'border-red-400 bg-red-50' : 'border-gray-200'
+      }`}
+    >
+      <table className="w-full min-w-[420px] table-fixed text-xs text-gray-600">
+        <thead>
+          <tr>
+            <th className="w-14" />
+            {AVAILABILITY_DAYS.map(day => (
+              <th key={day} scope="col" className="pb-1 font-medium">{DAY_LABELS[day]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {AVAILABILITY_HOURS.map(hour => (
+            <tr key={hour}>
+              <th scope="row" className="pr-2 text-right font-normal whitespace-nowrap">{hourLabel(hour)}</th>
+              {AVAILABILITY_DAYS.map(day => cell(day, hour))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-gray-500">
+        {value.length === 0 ? 'No times selected' : `${value.length} hour${value.length === 1 ? '' : 's'} a week selected`}
+      </p>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { hasEventsOnDate, getEventsForDate } from "../data/events";
+import { filterEventsForDate } from "../data/events";
+import { useEvents } from "../hooks/useEvents";
 import EventDetailsCard from "./calendar/EventDetailsCard";
 import CalendarWidget from "./calendar/CalendarWidget";
 
@@ -7,6 +8,7 @@ export default function CalendarPage() {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
   const [showEventCard, setShowEventCard] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const { events } = useEvents();
 
   // Check if mobile on mount and resize
   useEffect(() => {
@@ -21,7 +23,7 @@ export default function CalendarPage() {
 
   const handleDateSelect = (date: Date | undefined) => {
     // Check if the clicked date has events
-    const isEventDate = date && hasEventsOnDate(date);
+    const isEventDate = date && filterEventsForDate(events, date).length > 0;
     
     if (!isEventDate) {
       // If it's not an event date, do nothing
@@ -63,7 +65,7 @@ export default function CalendarPage() {
       // Handle arrow keys for event navigation when event card is visible
       if (selectedDate && showEventCard) {
         // Get the events for the selected date to check if there are multiple
-        const eventsForDate = getEventsForDate(selectedDate);
+        const eventsForDate = filterEventsForDate(events, selectedDate);
         
         if (eventsForDate.length > 1) {
           if (e.key === 'ArrowUp') {
@@ -85,7 +87,7 @@ export default function CalendarPage() {
 
     document.addEventListener('keydown', handleGlobalKeyPress);
     return () => document.removeEventListener('keydown', handleGlobalKeyPress);
-  }, [selectedDate, showEventCard]);
+  }, [selectedDate, showEventCard, events]);
 
   // Reset event card visibility when date changes
   useEffect(() => {
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import ACSLogo from "./ACSLogo";
+import { useEvents } from "../hooks/useEvents";
+import { checkIn } from "../utils/api";
+import { CheckInErrors, checkInWindow, checkInWindowStatus, validateCheckIn } from "../utils/attendanceSchema";
+
+interface CheckInPageProps {
+  eventId: number;
+  code: string;
+}
+
+// Link encoded in an event's QR code
+export const checkInUrl = (eventId: number, code: string) =>
+  `${window.location.origin}/check-in/${eventId}?code=${encodeURIComponent(code)}`;
+
+// Remembered so members can check in to the next event in one tap
+const ATTENDEE_STORAGE_KEY = 'acs-check-in';
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// Opened by scanning the QR code displayed at an event
+export default function CheckInPage({ eventId, code }: CheckInPageProps) {
+  const { events, loading, error: loadError } = useEvents();
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [errors, setErrors] = useState<CheckInErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(ATTENDEE_STORAGE_KEY) ?? '{}');
+      setEmail(saved.email ?? "");
+      setName(saved.name ?? "");
+    } catch {
+      // Ignore a corrupt saved entry; the form just starts empty
+    }
+  }, []);
+
+  const event = events.find(candidate => candidate.id === eventId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = { email: email.trim().toLowerCase(), name: name.trim(), code };
+    const validationErrors = validateCheckIn(formData);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    const result = await checkIn(eventId, formData);
+    setIsSubmitting(false);
+
+    if (result.ok) {
+      localStorage.setItem(ATTENDEE_STORAGE_KEY, JSON.stringify({ email: formData.email, name: formData.name }));
+      setConfirmation(result.data.alreadyCheckedIn
+        ? "You're already checked in. Enjoy the event!"
+        : "You're checked in. Enjoy the event!");
+    } else {
+      setErrors(result.errors);
+      setSubmitError(result.message ?? "Could not check you in");
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-center text-gray-600">Loading event...</p>;
+    }
+    if (loadError) {
+      return <p className="text-center text-red-600" role="alert">{loadError}</p>;
+    }
+    if (!event) {
+      return <p className="text-center text-gray-600">We couldn't find this event.</p>;
+    }
+    if (event.status === 'cancelled') {
+      return <p className="text-center text-gray-600">This event has been cancelled.</p>;
+    }
+    if (confirmation) {
+      return <p className="text-center text-gray-700 font-medium">{confirmation}</p>;
+    }
+
+    const windowStatus = checkInWindowStatus(event);
+    if (windowStatus !== 'open') {
+      const { opensAt } = checkInWindow(event);
+      return (
+        <p className="text-center text-gray-600">
+          {windowStatus === 'upcoming'
+            ? `Check-in opens at ${formatClock(opensAt)} on ${event.date}.`
+            : 'Check-in for this event has closed.'}
+        </p>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-5" noValidate>
+        <div>
+          <Label htmlFor="check-in-name" className="text-gray-800 font-medium mb-2 block">Name</Label>
+          <Input
+            id="check-in-name"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setErrors(prev => ({ ...prev, name: undefined }));
+            }}
+            className="h-12 px-4 border-2 rounded-xl"
+            aria-invalid={errors.name ? 'true' : 'false'}
+          />
+          {errors.name && <p className="mt-2 text-sm text-red-600" role="alert">{errors.name}</p>}
+        </div>
+        <div>
+          <Label htmlFor="check-in-email" className="text-gray-800 font-medium mb-2 block">RIT Email</Label>
+          <Input
+            id="check-in-email"
+            type="email"
+            value={email}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              setErrors(prev => ({ ...prev, email: undefined }));
+            }}
+            placeholder="abc1234@rit.edu"
+            className="h-12 px-4 border-2 rounded-xl"
+            aria-invalid={errors.email ? 'true' : 'false'}
+          />
+          {errors.email && <p className="mt-2 text-sm text-red-600" role="alert">{errors.email}</p>}
+        </div>
+        {(errors.code || submitError) && (
+          <p className="text-sm text-red-600" role="alert">{errors.code ?? submitError}</p>
+        )}
+        <Button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl"
+        >
+          {isSubmitting ? 'Checking in...' : 'Check in'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#69d7e5] flex items-center justify-center px-4">
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 w-full max-w-sm space-y-6">
+        <div className="flex flex-col items-center gap-3 text-center">
+          <ACSLogo size={61} />
+          <h1 className="text-2xl font-bold text-gray-900">{event ? event.title : 'Event Check-in'}</h1>
+          {event && (
+            <p className="text-sm text-gray-600">{event.date} · {event.time} @ {event.location}</p>
+          )}
+        </div>
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { useState, useRef, useEffect } from "react";
 import svgPaths from "../imports/svg-onqcmwzw98";
-import { events, Event, getSortedEvents } from "../data/events";
+import { Event } from "../data/events";
+import { useEvents } from "../hooks/useEvents";
+import { useRsvpCounts } from "../hooks/useRsvpCounts";
+import { downloadEventCalendar } from "../utils/calendarHelpers";
+import { RsvpCounts } from "../utils/rsvpSchema";
+import RsvpDialog from "./RsvpDialog";
 
 function FilterButtons({ onNavigate }: { onNavigate?: (page: string) => void }) {
   // Hard navigate to CampusGroups calendar URL
@@ -38,13 +43,53 @@ function FilterButtons({ onNavigate }: { onNavigate?: (page: string) => void })
 
 // Event interface is now imported from /data/events.ts
 
-function EventCard({ event }: { event: Event }) {
+// "12 going · 3 maybe", plus the waitlist or spots left when the event has a capacity
+const formatRsvpSummary = (counts: RsvpCounts) => {
+  const parts = [`${counts.going} going`];
+  if (counts.maybe > 0) parts.push(`${counts.maybe} maybe`);
+  if (counts.waitlisted > 0) {
+    parts.push(`${counts.waitlisted} waitlisted`);
+  } else if (counts.capacity !== null) {
+    parts.push(`${Math.max(counts.capacity - counts.going, 0)} spots left`);
+  }
+  return parts.join(' · ');
+};
+
+// Also used by the officer event editor as its live preview, without the RSVP controls
+export function EventCard({ event, rsvpCounts, onRsvp }: {
+  event: Event,
+  rsvpCounts?: RsvpCounts,
+  onRsvp?: (event: Event) => void
+}) {
+  const isCancelled = event.status === "cancelled";
+  const hasEnded = Date.parse(event.endsAt) < Date.now();
+
   return (
     <div className="bg-[#99e3ed] h-[265px] relative rounded-[15px] shrink-0 w-[280px] sm:w-[351px]">
       <div className="h-[265px] overflow-clip relative w-[280px] sm:w-[351px]">
+        <div className="absolute left-[18px] right-[18px] top-[18px] flex items-center justify-between gap-2">
+          {isCancelled ? (
+            <div className="bg-white/70 rounded-full px-3 py-1 font-['Lexend:Bold',_sans-serif] font-bold text-[11px] text-[#195259] uppercase tracking-wide">
+              Cancelled
+            </div>
+          ) : (
+            <div className="font-['Lexend:Medium',_sans-serif] font-medium text-[11px] text-[#195259]">
+              {rsvpCounts ? formatRsvpSummary(rsvpCounts) : null}
+            </div>
+          )}
+          {onRsvp && !isCancelled && !hasEnded && (
+            <button
+              type="button"
+              onClick={() => onRsvp(event)}
+              className="bg-white/70 hover:bg-white rounded-full px-3 py-1 font-['Lexend:Bold',_sans-serif] font-bold text-[11px] text-[#195259] cursor-pointer transition-all duration-200"
+            >
+              RSVP
+            </button>
+          )}
+        </div>
         <div className="absolute content-stretch flex flex-col items-start justify-start left-[18px] text-black top-[94px] w-[237px] gap-1">
           <div className="font-['Lexend:Bold',_sans-serif] font-bold relative shrink-0 text-[18px] w-full">
-            <p className="leading-[1.2]">{event.title}</p>
+            <p className={`leading-[1.2] ${isCancelled ? 'line-through' : ''}`}>{event.title}</p>
           </div>
           <div className="font-['Lexend:Medium',_sans-serif] font-medium relative shrink-0 text-[12px] w-full">
             <p className="leading-[1.3]">{event.time} @ {event.location}</p>
@@ -59,7 +104,13 @@ function EventCard({ event }: { event: Event }) {
             )}
           </div>
         </div>
-        <div className="absolute bg-[rgba(255,255,255,0.5)] left-[298px] rounded-[15px] size-9 top-[94px] flex items-center justify-center">
+        <button
+          type="button"
+          onClick={() => downloadEventCalendar(event)}
+          className="absolute bg-[rgba(255,255,255,0.5)] hover:bg-[rgba(255,255,255,0.8)] right-[18px] rounded-[15px] size-9 top-[94px] flex items-center justify-center cursor-pointer transition-all duration-200"
+          aria-label={`Add ${event.title} to calendar`}
+          title="Add to calendar"
+        >
           <div className="h-6 relative w-[21px]" data-name="calendar-days">
             <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 21 24">
               <g id="calendar-days">
@@ -68,7 +119,7 @@ function EventCard({ event }: { event: Event }) {
             </svg>
           </div>
           <div aria-hidden="true" className="absolute border border-solid border-white inset-0 pointer-events-none rounded-[15px]" />
-        </div>
+        </button>
         <div className="absolute left-[18px] text-[12px] text-black top-[170px] w-[calc(100%-36px)] h-[77px] overflow-y-auto">
           <div className="font-['Lexend:Regular',_sans-serif] font-normal pr-2">
             <p className="leading-[1.4]">{event.description}</p>
@@ -80,30 +131,49 @@ function EventCard({ event }: { event: Event }) {
   );
 }
 
-// Placeholder card shown when no events are available
-function PlaceholderCard() {
+// Placeholder card shown while events load, when loading fails, or when there are none
+function PlaceholderCard({
+  title = "No Events Yet",
+  message = "Events will be displayed here once they are added.",
+  onRetry,
+}: {
+  title?: string,
+  message?: string,
+  onRetry?: () => void
+}) {
   return (
     <div className="bg-[#99e3ed] h-[265px] relative rounded-[15px] shrink-0 w-[280px] sm:w-[351px] flex items-center justify-center">
       <div className="text-center px-6 max-h-[200px] overflow-y-auto">
         <div className="font-['Lexend:Bold',_sans-serif] font-bold text-[18px] text-black mb-2">
-          <p className="leading-[1.2]">No Events Yet</p>
+          <p className="leading-[1.2]">{title}</p>
         </div>
         <div className="font-['Lexend:Regular',_sans-serif] font-normal text-[12px] text-black">
-          <p className="leading-[1.4]">Events will be displayed here once they are added.</p>
+          <p className="leading-[1.4]">{message}</p>
         </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="mt-3 bg-[#8bd4e0] hover:bg-[#7bc7d3] rounded-[10px] px-4 py-1.5 font-['Lexend:Medium',_sans-serif] font-medium text-[12px] text-black transition-all duration-200"
+          >
+            Try again
+          </button>
+        )}
       </div>
       <div aria-hidden="true" className="absolute border border-solid border-white inset-0 pointer-events-none rounded-[15px]" />
     </div>
   );
 }
 
-function EventsCarousel({ currentSlide, setCurrentSlide }: {
+function EventsCarousel({ sortedEvents, placeholder, rsvpCounts, onRsvp, currentSlide, setCurrentSlide }: {
+  sortedEvents: Event[],
+  placeholder: React.ReactNode,
+  rsvpCounts: Record<number, RsvpCounts>,
+  onRsvp: (event: Event) => void,
   currentSlide: number,
   setCurrentSlide: (slide: number) => void
 }) {
   const carouselRef = useRef<HTMLDivElement>(null);
   const lastScrollTimeRef = useRef<number>(0);
-  const sortedEvents = getSortedEvents(); // Get events sorted by date
   const totalSlides = Math.max(sortedEvents.length, 1); // At least 1 slide for placeholder
   const [cardWidth, setCardWidth] = useState(351);
   const gap = 20;
@@ -218,10 +288,10 @@ function EventsCarousel({ currentSlide, setCurrentSlide }: {
         >
           {sortedEvents.length > 0 ? (
             sortedEvents.map((event) => (
-              <EventCard key={event.id} event={event} />
+              <EventCard key={event.id} event={event} rsvpCounts={rsvpCounts[event.id]} onRsvp={onRsvp} />
             ))
           ) : (
-            <PlaceholderCard />
+            placeholder
           )}
         </div>
         
@@ -304,9 +374,19 @@ function PaginationDots({ currentSlide, onSlideChange, totalSlides }: {
 
 export default function EventsSection({ onNavigate }: { onNavigate?: (page: string) => void }) {
   const [currentSlide, setCurrentSlide] = useState(0);
-  const sortedEvents = getSortedEvents(); // Get events sorted by date
+  const { events: sortedEvents, loading, error, reload } = useEvents(); // Events sorted by date
+  const { counts: rsvpCounts, update: updateRsvpCounts } = useRsvpCounts();
+  const [rsvpEvent, setRsvpEvent] = useState<Event | null>(null);
   const totalSlides = Math.max(sortedEvents.length, 1);
 
+  const placeholder = loading ? (
+    <PlaceholderCard title="Loading Events" message="Fetching the latest events..." />
+  ) : error ? (
+    <PlaceholderCard title="Couldn't Load Events" message={error} onRetry={reload} />
+  ) : (
+    <PlaceholderCard />
+  );
+
   return (
     <div className="bg-[#69d7e5] box-border content-stretch flex flex-col gap-[15px] items-center justify-start pb-[30px] pt-[25px] px-0 relative w-full overflow-hidden">
       <div className="flex flex-col font-['Lexend:Medium',_sans-serif] font-medium justify-center leading-[0] relative shrink-0 text-[20px] md:text-[25px] text-black text-center px-4">
@@ -314,6 +394,10 @@ export default function EventsSection({ onNavigate }: { onNavigate?: (page: stri
       </div>
       <FilterButtons onNavigate={onNavigate} />
       <EventsCarousel 
+        sortedEvents={sortedEvents}
+        placeholder={placeholder}
+        rsvpCounts={rsvpCounts}
+        onRsvp={setRsvpEvent}
         currentSlide={currentSlide}
         setCurrentSlide={setCurrentSlide}
       />
@@ -322,6 +406,11 @@ export default function EventsSection({ onNavigate }: { onNavigate?: (page: stri
         onSlideChange={setCurrentSlide}
         totalSlides={totalSlides}
       />
+      <RsvpDialog
+        event={rsvpEvent}
+        onClose={() => setRsvpEvent(null)}
+        onSaved={updateRsvpCounts}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import ACSLogo from "./ACSLogo";
+import { Event } from "../data/events";
+import { getSortedEvents } from "../data/eventStore";
+import { getFamily } from "../utils/api";
+import { FamilyPage as FamilyPageData } from "../utils/familySchema";
+
+interface FamilyPageProps {
+  familyId: string;
+}
+
+const UPCOMING_LIMIT = 5;
+
+// Shareable link for a family's page
+export const familyUrl = (familyId: string) =>
+  `${window.location.origin}/family/${encodeURIComponent(familyId)}`;
+
+// Shared dashboard for a mentor family: members, points and what's coming up
+export default function FamilyPage({ familyId }: FamilyPageProps) {
+  const [family, setFamily] = useState<FamilyPageData | null>(null);
+  const [upcoming, setUpcoming] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+
+    const [result, events] = await Promise.all([
+      getFamily(familyId),
+      getSortedEvents().catch(() => [] as Event[]),
+    ]);
+    setLoading(false);
+
+    const now = Date.now();
+    setUpcoming(
+      events
+        .filter(event => event.status !== 'cancelled' && Date.parse(event.endsAt) > now)
+        .slice(0, UPCOMING_LIMIT)
+    );
+
+    if (result.ok) {
+      setFamily(result.data);
+    } else {
+      setError(result.status === 404 ? "We couldn't find this family." : result.message ?? "Could not load this family");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [familyId]);
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-center text-gray-600">Loading family...</p>;
+    }
+    if (error || !family) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-red-600" role="alert">{error}</p>
+          <Button onClick={load} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">Try again</Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-8">
+        <div className="text-center">
+          <p className="text-4xl font-bold text-gray-900">{family.points}</p>
+          <p className="text-sm text-gray-500">family points</p>
+        </div>
+
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Members</h2>
+          <ul className="divide-y">
+            {family.members.map(member => (
+              <li key={`${member.role}-${member.name}`} className="flex items-center justify-between py-2">
+                <span className="flex items-center gap-2">
+                  <span className="text-gray-900">{member.name}</span>
+                  {member.isLead && <Badge>Lead mentor</Badge>}
+                  {!member.isLead && <Badge variant="outline">{member.role === 'mentor' ? 'Mentor' : 'Mentee'}</Badge>}
+                </span>
+                <span className="text-sm text-gray-600">
+                  {member.points} pts · {member.eventsAttended} {member.eventsAttended === 1 ? 'event' : 'events'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Upcoming events</h2>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-600">No upcoming events yet. Check back soon!</p>
+          ) : (
+            <ul className="space-y-3">
+              {upcoming.map(event => (
+                <li key={event.id} className="rounded-xl border border-gray-100 p-4">
+                  <p className="font-medium text-gray-900">{event.title}</p>
+                  <p className="text-sm text-gray-600">{event.date} · {event.time} @ {event.location}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#69d7e5] flex items-center justify-center px-4 py-12">
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 w-full max-w-xl space-y-6">
+        <div className="flex flex-col items-center gap-3 text-center">
+          <ACSLogo size={61} />
+          <h1 className="text-2xl font-bold text-gray-900">{family ? family.name : 'Mentor Family'}</h1>
+        </div>
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Moved off screen and out of the tab order, so only bots that fill in every input find it. Its
+// name and label mean nothing to browser autofill, which would otherwise fill it for real people.
+export default function HoneypotField({ value, onChange }: HoneypotFieldProps) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+      <label htmlFor="signup-extra">Leave this empty</label>
+      <input
+        id="signup-extra"
+        name="signup-extra"
+        type="text"
+        tabIndex={-1}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
@@ -17,8 +17,16 @@ export function NavigationHeader({
     calendar: "https://campusgroups.rit.edu/ACS/acs-calendar/",
     "mentor-mentee": "https://campusgroups.rit.edu/ACS/mentor-mentee/",
     tinikling: "https://campusgroups.rit.edu/ACS/tinikling/",
+    "mentor-signup": "#mentor-signup",
+    "mentee-signup": "#mentee-signup",
+    "speed-dating": "#speed-dating",
+    leaderboard: "#leaderboard",
+    "my-signup": "#my-signup",
   };
 
+  // Pages rendered inside this app rather than on CampusGroups
+  const internalPages = new Set(["mentor-signup", "mentee-signup", "speed-dating", "leaderboard", "my-signup"]);
+
   const linkCls = (key: string) =>
     `font-['Lexend:Regular',_sans-serif] font-normal leading-[0] relative shrink-0 text-[10px] md:text-[12px] text-center text-nowrap cursor-pointer transition-colors hover:text-blue-600 ${
       activeSection === key ? "text-blue-600" : "text-black"
@@ -55,6 +63,10 @@ export function NavigationHeader({
         e.preventDefault();
         setActiveSection(keyName);
         onNavigate?.(keyName);
+        if (internalPages.has(keyName)) {
+          // In-app page, let onNavigate swap the content
+          return;
+        }
         if (forceTopHref) {
           navigateTop(routes[keyName]); // guarantees exact path e.g. /ACS/about-us/
         } else {
@@ -116,6 +128,13 @@ export function NavigationHeader({
           labelMobile="Mentor"
         />
         <NavLink keyName="tinikling" labelDesktop="Tinikling" />
+
+        {/* In-app sign up pages */}
+        <NavLink keyName="mentor-signup" labelDesktop="Become a Mentor" labelMobile="Be a Mentor" />
+        <NavLink keyName="mentee-signup" labelDesktop="Find a Mentor" labelMobile="Find Mentor" />
+        <NavLink keyName="speed-dating" labelDesktop="Speed Dating" labelMobile="Ballot" />
+        <NavLink keyName="leaderboard" labelDesktop="Leaderboard" labelMobile="Points" />
+        <NavLink keyName="my-signup" labelDesktop="My Sign-up" labelMobile="Mine" />
       </div>
     </div>
   );
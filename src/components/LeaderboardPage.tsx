@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "./ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart";
+import { familyUrl } from "./FamilyPage";
+import { getFamilies, getLeaderboard } from "../utils/api";
+import { LeaderboardEntry } from "../utils/pointsSchema";
+import { FamilySummary } from "../utils/familySchema";
+
+// Only the top of the table is charted; everyone is listed below it
+const CHART_SIZE = 10;
+
+const chartConfig = {
+  points: { label: "Points", color: "#8bd4e0" },
+} satisfies ChartConfig;
+
+function LeaderboardChart({ entries }: { entries: LeaderboardEntry[] }) {
+  const top = entries.slice(0, CHART_SIZE);
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: top.length * 40 + 40 }}>
+      <BarChart data={top} layout="vertical" margin={{ left: 8, right: 24 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" dataKey="points" allowDecimals={false} />
+        <YAxis type="category" dataKey="name" width={120} tickLine={false} axisLine={false} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <Bar dataKey="points" fill="var(--color-points)" radius={6} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export default function LeaderboardPage() {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [families, setFamilies] = useState<FamilySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    const [result, familyResult] = await Promise.all([getLeaderboard(), getFamilies()]);
+    setLoading(false);
+
+    if (result.ok) {
+      setEntries(result.data);
+    } else {
+      setError(result.message ?? "Could not load the leaderboard");
+    }
+    // The family standings are a bonus; the member table still shows without them
+    setFamilies(familyResult.ok ? familyResult.data : []);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-center text-gray-600">Loading leaderboard...</p>;
+    }
+    if (error) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-red-600" role="alert">{error}</p>
+          <Button onClick={load} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">Try again</Button>
+        </div>
+      );
+    }
+    if (entries.length === 0) {
+      return <p className="text-center text-gray-600">No points yet. Check in at an event to get on the board!</p>;
+    }
+
+    return (
+      <div className="space-y-8">
+        <LeaderboardChart entries={entries} />
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium">#</th>
+              <th className="py-2 pr-4 font-medium">Name</th>
+              <th className="py-2 pr-4 font-medium text-right">Events</th>
+              <th className="py-2 pr-4 font-medium text-right">Mentor bonus</th>
+              <th className="py-2 font-medium text-right">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={`${entry.rank}-${entry.name}`} className="border-b last:border-0">
+                <td className="py-2 pr-4 text-gray-500">{entry.rank}</td>
+                <td className="py-2 pr-4 text-gray-900">{entry.name}</td>
+                <td className="py-2 pr-4 text-right">{entry.eventsAttended}</td>
+                <td className="py-2 pr-4 text-right">{entry.bonusPoints || '—'}</td>
+                <td className="py-2 text-right font-semibold">{entry.points}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {families.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Families</h2>
+            <ul className="divide-y">
+              {families.map(family => (
+                <li key={family.id} className="flex items-center justify-between py-2 text-sm">
+                  <a href={familyUrl(family.id)} className="text-gray-900 hover:text-blue-600 underline-offset-2 hover:underline">
+                    {family.name}
+                  </a>
+                  <span className="text-gray-600">
+                    {family.memberCount} members · <span className="font-semibold text-gray-900">{family.points} pts</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-12 px-4">
+      <div className="max-w-[720px] mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Leaderboard</h1>
+          <p className="text-gray-600 mt-2">
+            Earn points by checking in at ACS events. Mentors earn a bonus for bringing their mentees along.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 md:p-10">
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { FormErrors } from "../utils/formValidation";
+import { FieldValue, FormField, SignupAnswers, emptyAnswers, validateAnswers } from "../utils/formSchema";
+import { submitMentee } from "../utils/api";
+import { useSpamGuard } from "../hooks/useSpamGuard";
+import SchemaField, { FieldError } from "./SchemaField";
+import HoneypotField from "./HoneypotField";
+import VerifyEmailStep from "./VerifyEmailStep";
+
+interface MenteeFormProps {
+  fields: FormField[];
+}
+
+export default function MenteeForm({ fields }: MenteeFormProps) {
+  const [formData, setFormData] = useState<SignupAnswers>(() => emptyAnswers(fields));
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [pending, setPending] = useState<{ id: string; email: string; codeSent: boolean } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const spamGuard = useSpamGuard();
+
+  const handleInputChange = (field: string, value: FieldValue) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    const validationErrors = validateAnswers(fields, formData);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    
+    const result = await submitMentee(formData, spamGuard.fields());
+    
+    setIsSubmitting(false);
+
+    if (result.ok) {
+      // The sign up only counts once the emailed code is entered
+      setPending({ id: result.data.record.id, email: result.data.record.email, codeSent: result.data.codeSent });
+    } else if (Object.keys(result.errors).length > 0) {
+      // Server-side validation uses the same FormErrors shape as the client
+      setErrors(result.errors);
+    } else {
+      setSubmitError(result.message ?? "Something went wrong. Please try again.");
+    }
+  };
+
+  if (pending && !isSubmitted) {
+    return (
+      <VerifyEmailStep
+        kind="mentee"
+        id={pending.id}
+        email={pending.email}
+        codeSent={pending.codeSent}
+        onVerified={() => setIsSubmitted(true)}
+      />
+    );
+  }
+
+  if (isSubmitted) {
+    return (
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center max-w-md mx-auto">
+        <div className="w-16 h-16 bg-[#8bd4e0] rounded-full flex items-center justify-center mx-auto mb-6">
+          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Thank You!</h2>
+        <p className="text-gray-600 leading-relaxed">
+          Your mentee sign up has been successfully submitted.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 md:p-10">
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-3">Mentee Sign Up</h2>
+        <p className="text-gray-600 mb-2">
+          Tell us a bit about yourself so we can pair you with the right mentor.
+        </p>
+        {fields.every(field => field.required) && <p className="text-sm text-gray-500">All fields are required</p>}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-7">
+        {fields.map(field => (
+          <SchemaField
+            key={field.id}
+            field={field}
+            value={formData[field.id]}
+            error={errors[field.id]}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        ))}
+
+        {/* Submission error */}
+        {submitError && <FieldError message={submitError} />}
+
+        {/* Submit Button */}
+        <div className="pt-6">
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl transition-all duration-200 hover:shadow-lg hover:scale-[1.02] disabled:hover:scale-100 disabled:hover:shadow-none"
+          >
+            {isSubmitting ? (
+              <div className="flex items-center justify-center gap-3">
+                <svg className="animate-spin h-5 w-5 text-black" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <span>Submitting...</span>
+              </div>
+            ) : (
+              "Submit"
+            )}
+          </Button>
+        </div>
+
+        <HoneypotField value={spamGuard.honeypot} onChange={spamGuard.setHoneypot} />
+      </form>
+    </div>
+  );
+}
\ No newline at end of file
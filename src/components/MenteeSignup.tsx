@@ -0,0 +1,21 @@
+import { useFormSchema } from "../hooks/useFormSchema";
+import MenteeForm from "./MenteeForm";
+
+export default function MenteeSignup() {
+  const fields = useFormSchema('mentee');
+
+  return (
+    <div className="py-12 px-4">
+      <div className="max-w-[720px] mx-auto">
+        {/* Simple Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Find a Mentor</h1>
+        </div>
+
+        {fields
+          ? <MenteeForm fields={fields} />
+          : <p className="text-center text-gray-600">Loading the sign up form…</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import { FormErrors } from "../utils/formValidation";
+import {
+  FieldValue,
+  FormField,
+  SignupAnswers,
+  emptyAnswers,
+  formatAnswer,
+  validateAnswers,
+} from "../utils/formSchema";
+import { submitMentor } from "../utils/api";
+import { useSpamGuard } from "../hooks/useSpamGuard";
+import SchemaField, { FieldError } from "./SchemaField";
+import HoneypotField from "./HoneypotField";
+import VerifyEmailStep from "./VerifyEmailStep";
+
+interface MentorFormProps {
+  fields: FormField[];
+}
+
+interface Step {
+  title: string;
+  fields: FormField[];
+}
+
+// Questions without a section share a step
+const DEFAULT_SECTION = 'More about you';
+
+// Answers are saved as the student types so a closed tab doesn't lose them
+const DRAFT_STORAGE_KEY = 'acs-mentor-signup-draft';
+
+// One step per section, in the order sections first appear, then a review step
+const buildSteps = (fields: FormField[]): Step[] => {
+  const steps: Step[] = [];
+  for (const field of fields) {
+    const title = field.section?.trim() || DEFAULT_SECTION;
+    const step = steps.find(candidate => candidate.title === title);
+    if (step) {
+      step.fields.push(field);
+    } else {
+      steps.push({ title, fields: [field] });
+    }
+  }
+  return [...steps, { title: 'Review', fields: [] }];
+};
+
+// Start the form from earlier answers, e.g. a returning mentor's sign up from a past cohort
+export const prefillMentorDraft = (formData: SignupAnswers, source: string) => {
+  localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify({ formData, step: 0, source }));
+};
+
+const loadDraft = (): { formData: SignupAnswers; step: number; source?: string; startedAt: number } | null => {
+  try {
+    const draft = JSON.parse(localStorage.getItem(DRAFT_STORAGE_KEY) ?? 'null');
+    if (!draft?.formData) return null;
+    return {
+      formData: draft.formData,
+      step: Math.max(Number(draft.step) || 0, 0),
+      source: typeof draft.source === 'string' ? draft.source : undefined,
+      // Prefilled drafts, and ones saved before this was recorded, were never timed, so they
+      // aren't held to the minimum fill time
+      startedAt: Number(draft.startedAt) || 0,
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Errors for the given questions only
+const errorsFor = (errors: FormErrors, fields: FormField[]): FormErrors =>
+  Object.fromEntries(
+    Object.entries(errors).filter(([key]) => fields.some(field => field.id === key))
+  );
+
+// Multi-step mentor sign up built from this semester's questions, ending with a review
+export default function MentorForm({ fields }: MentorFormProps) {
+  const steps = useMemo(() => buildSteps(fields), [fields]);
+  const reviewStep = steps.length - 1;
+
+  const [restored] = useState(loadDraft);
+  const [formData, setFormData] = useState<SignupAnswers>({ ...emptyAnswers(fields), ...restored?.formData });
+  const [step, setStep] = useState(Math.min(restored?.step ?? 0, reviewStep));
+  const [showRestored, setShowRestored] = useState(restored !== null);
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [pending, setPending] = useState<{ id: string; email: string; codeSent: boolean } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const spamGuard = useSpamGuard(restored?.startedAt);
+
+  useEffect(() => {
+    if (pending) return;
+    localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify({ formData, step, startedAt: spamGuard.startedAt }));
+  }, [formData, step, pending, spamGuard.startedAt]);
+
+  const handleInputChange = (field: string, value: FieldValue) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const startOver = () => {
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+    setFormData(emptyAnswers(fields));
+    setStep(0);
+    setErrors({});
+    setShowRestored(false);
+  };
+
+  const goToStep = (next: number) => {
+    setStep(next);
+    setSubmitError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Send the student back to the first step with a problem
+  const showErrors = (validationErrors: FormErrors) => {
+    setErrors(validationErrors);
+    const first = steps.findIndex(candidate => Object.keys(errorsFor(validationErrors, candidate.fields)).length > 0);
+    if (first !== -1) goToStep(first);
+  };
+
+  const handleNext = () => {
+    const validationErrors = validateAnswers(steps[step].fields, formData);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+    goToStep(step + 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step !== reviewStep) {
+      handleNext();
+      return;
+    }
+
+    const validationErrors = validateAnswers(fields, formData);
+    if (Object.keys(validationErrors).length > 0) {
+      showErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    const result = await submitMentor(formData, spamGuard.fields());
+
+    setIsSubmitting(false);
+
+    if (result.ok) {
+      // The sign up only counts once the emailed code is entered
+      localStorage.removeItem(DRAFT_STORAGE_KEY);
+      setPending({ id: result.data.record.id, email: result.data.record.email, codeSent: result.data.codeSent });
+    } else if (Object.keys(result.errors).length > 0) {
+      // Server-side validation uses the same FormErrors shape as the client
+      showErrors(result.errors);
+    } else {
+      setSubmitError(result.message ?? "Something went wrong. Please try again.");
+    }
+  };
+
+  if (pending && !isSubmitted) {
+    return (
+      <VerifyEmailStep
+        kind="mentor"
+        id={pending.id}
+        email={pending.email}
+        codeSent={pending.codeSent}
+        onVerified={() => setIsSubmitted(true)}
+      />
+    );
+  }
+
+  if (isSubmitted) {
+    return (
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center max-w-md mx-auto">
+        <div className="w-16 h-16 bg-[#8bd4e0] rounded-full flex items-center justify-center mx-auto mb-6">
+          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Thank You!</h2>
+        <p className="text-gray-600 leading-relaxed">
+          Your mentor sign up has been successfully submitted.
+        </p>
+      </div>
+    );
+  }
+
+  const renderStep = () => {
+    if (step !== reviewStep) {
+      return steps[step].fields.map(field => (
+        <SchemaField
+          key={field.id}
+          field={field}
+          value={formData[field.id]}
+          error={errors[field.id]}
+          onChange={(value) => handleInputChange(field.id, value)}
+        />
+      ));
+    }
+
+    return (
+      <dl className="space-y-5">
+        {steps.slice(0, reviewStep).map((reviewed, index) => (
+          <div key={reviewed.title} className="rounded-xl border border-gray-100 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900">{reviewed.title}</h3>
+              <button
+                type="button"
+                onClick={() => goToStep(index)}
+                className="text-sm text-gray-600 underline hover:text-black"
+              >
+                Edit
+              </button>
+            </div>
+            {reviewed.fields.map(field => (
+              <div key={field.id} className="mb-3 last:mb-0">
+                <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                <dd className="mt-1 text-gray-900 whitespace-pre-wrap">{formatAnswer(field, formData[field.id]) || '-'}</dd>
+              </div>
+            ))}
+          </div>
+        ))}
+      </dl>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 md:p-10">
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-3">Mentor Sign Up</h2>
+        <p className="text-gray-600 mb-2">
+          Tell us a bit about yourself so we can pair you with the right mentee.
+        </p>
+        {fields.every(field => field.required) && <p className="text-sm text-gray-500">All fields are required</p>}
+      </div>
+
+      <div className="mb-8 space-y-2">
+        <div className="flex justify-between text-sm text-gray-600">
+          <span className="font-medium text-gray-900">{steps[step].title}</span>
+          <span>Step {step + 1} of {steps.length}</span>
+        </div>
+        <Progress value={((step + 1) / steps.length) * 100} aria-label="Sign up progress" />
+      </div>
+
+      {showRestored && (
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-2 rounded-xl bg-[#f0fafa] px-4 py-3 text-sm text-gray-700">
+          <span>
+            {restored?.source
+              ? `We filled in your answers from ${restored.source}. Check they're still right before you submit.`
+              : 'We restored the answers you started earlier.'}
+          </span>
+          <button type="button" onClick={startOver} className="underline hover:text-black">
+            Start over
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-7" noValidate>
+        {renderStep()}
+
+        {submitError && <FieldError message={submitError} />}
+
+        <div className="pt-6 flex gap-3">
+          {step > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => goToStep(step - 1)}
+              className="h-12 rounded-xl"
+            >
+              Back
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl transition-all duration-200 hover:shadow-lg"
+          >
+            {step < reviewStep ? 'Next' : isSubmitting ? 'Submitting...' : 'Submit'}
+          </Button>
+        </div>
+
+        <HoneypotField value={spamGuard.honeypot} onChange={spamGuard.setHoneypot} />
+      </form>
+    </div>
+  );
+}
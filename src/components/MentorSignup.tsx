@@ -1,29 +1,60 @@
 import { useMobileDetection } from "../hooks/useMobileDetection";
+import { useServerHealth } from "../hooks/useServerHealth";
+import { useFormSchema } from "../hooks/useFormSchema";
+import { NATIVE_SIGNUP_FORM } from "../constants/featureFlags";
+import MentorForm from "./MentorForm";
+
+const GOOGLE_FORM_URL = "https://docs.google.com/forms/d/e/1FAIpQLSdYUoB1zb_teJ_6yBaE_AfGZ2onxZtRt_GcCyKaseoZhTKTeA/viewform?embedded=true";
 
 export default function MentorSignup() {
   const isMobile = useMobileDetection();
+  const health = useServerHealth(NATIVE_SIGNUP_FORM);
+  const fields = useFormSchema('mentor');
 
-  return (
-    <div className="py-12 px-4">
-      <div className="max-w-[960px] mx-auto">
-        {/* Simple Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Become a Mentor</h1>
-        </div>
+  const renderForm = () => {
+    if (health === 'checking' || (health === 'up' && !fields)) {
+      return <p className="text-center text-gray-600">Loading the sign up form…</p>;
+    }
+
+    if (health === 'up' && fields) {
+      return <MentorForm fields={fields} />;
+    }
+
+    // Fallback: the Google Form still collects sign ups when our server can't
+    return (
+      <>
+        {NATIVE_SIGNUP_FORM && (
+          <p className="text-center text-sm text-gray-600 mb-4">
+            Our sign up server isn't responding right now, so we're using the Google Form instead.
+          </p>
+        )}
 
         {/* Clean Form Container */}
         <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
           <iframe
-            src="https://docs.google.com/forms/d/e/1FAIpQLSdYUoB1zb_teJ_6yBaE_AfGZ2onxZtRt_GcCyKaseoZhTKTeA/viewform?embedded=true"
+            src={GOOGLE_FORM_URL}
             title="Mentor Sign Up Form"
             className="w-full border-0 bg-white"
-            style={{ 
+            style={{
               height: isMobile ? '700px' : '900px',
               borderRadius: '1rem'
             }}
           />
         </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="py-12 px-4">
+      <div className={`${health === 'up' ? 'max-w-[720px]' : 'max-w-[960px]'} mx-auto`}>
+        {/* Simple Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Become a Mentor</h1>
+        </div>
+
+        {renderForm()}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
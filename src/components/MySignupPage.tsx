@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { FormErrors } from "../utils/formValidation";
+import { SignupAnswers, coerceAnswers, formatAnswer, validateAnswers } from "../utils/formSchema";
+import { useFormSchema } from "../hooks/useFormSchema";
+import SchemaField from "./SchemaField";
+import { prefillMentorDraft } from "./MentorForm";
+import PortalSignIn, { clearPortalSession, loadPortalSession, savePortalSession } from "./PortalSignIn";
+import {
+  PortalSession,
+  PortalSignup,
+  PortalSignups,
+  PreviousSignup,
+  closePortalSession,
+  getMySignups,
+  updateMySignup,
+  withdrawMySignup,
+} from "../utils/api";
+
+const formatDeadline = (deadline: string) =>
+  new Date(deadline).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+interface SignupCardProps {
+  signup: PortalSignup;
+  editable: boolean;
+  token: string;
+  onChanged: () => void;
+  onSessionExpired: () => void;
+}
+
+function SignupCard({ signup, editable, token, onChanged, onSessionExpired }: SignupCardProps) {
+  const [draft, setDraft] = useState<SignupAnswers | null>(null);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The email is how the student signs in, so it isn't editable here
+  const fields = (useFormSchema(signup.kind) ?? []).filter(field => field.id !== 'email');
+  const answers = coerceAnswers(fields, signup.record as unknown as Record<string, unknown>);
+
+  const handleFailure = (result: { status?: number; message?: string }, fallback: string) => {
+    if (result.status === 401) {
+      onSessionExpired();
+    } else {
+      setError(result.message ?? fallback);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const validationErrors = validateAnswers(fields, draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = await updateMySignup(token, { ...signup, record: { ...signup.record, ...draft } } as PortalSignup);
+    setIsSaving(false);
+
+    if (result.ok) {
+      setDraft(null);
+      onChanged();
+    } else {
+      setErrors(result.errors);
+      handleFailure(result, "Could not save your changes");
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!window.confirm(`Withdraw your ${signup.kind} sign up? You won't be matched unless you sign up again.`)) return;
+
+    const result = await withdrawMySignup(token, signup.kind, signup.record.id);
+    if (result.ok) {
+      onChanged();
+    } else {
+      handleFailure(result, "Could not withdraw your sign up");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-100 p-6 space-y-5">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl font-bold text-gray-900">{signup.kind === 'mentor' ? 'Mentor' : 'Mentee'} sign up</h2>
+        {signup.record.status === 'pending' && <span className="text-sm text-gray-500">Email not verified yet</span>}
+      </div>
+
+      {draft ? (
+        <form onSubmit={handleSave} className="space-y-5" noValidate>
+          {fields.map(field => (
+            <SchemaField
+              key={field.id}
+              field={field}
+              idPrefix={`my-signup-${signup.kind}-`}
+              value={draft[field.id]}
+              error={errors[field.id]}
+              onChange={(value) => {
+                setDraft(prev => ({ ...prev, [field.id]: value }));
+                setErrors(prev => ({ ...prev, [field.id]: undefined }));
+              }}
+            />
+          ))}
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isSaving} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <dl className="space-y-4">
+            <div>
+              <dt className="text-sm font-medium text-gray-500">RIT Email</dt>
+              <dd className="mt-1 text-gray-900">{signup.record.email}</dd>
+            </div>
+            {fields.map(field => (
+              <div key={field.id}>
+                <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                <dd className="mt-1 text-gray-900 whitespace-pre-wrap">{formatAnswer(field, answers[field.id]) || '-'}</dd>
+              </div>
+            ))}
+          </dl>
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+          {editable && (
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setDraft(answers)}
+                className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black"
+              >
+                Edit answers
+              </Button>
+              <Button variant="outline" onClick={handleWithdraw}>Withdraw</Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface ReturningMentorCardProps {
+  previous: PreviousSignup;
+  cohort: string;
+  onNavigate?: (page: string) => void;
+}
+
+// Mentors from an earlier cohort can start this cohort's sign up from their last answers
+function ReturningMentorCard({ previous, cohort, onNavigate }: ReturningMentorCardProps) {
+  const fields = useFormSchema('mentor');
+
+  const handleStart = () => {
+    const answers = coerceAnswers(fields ?? [], previous.record as unknown as Record<string, unknown>);
+    prefillMentorDraft(answers, previous.cohort);
+    onNavigate?.('mentor-signup');
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-100 p-6 space-y-4">
+      <h2 className="text-xl font-bold text-gray-900">Mentor again in {cohort}?</h2>
+      <p className="text-gray-600">
+        You were a mentor in {previous.cohort}. Start your {cohort} sign up with the answers you gave
+        then, and update anything that has changed.
+      </p>
+      <Button onClick={handleStart} disabled={!fields} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+        Sign up again
+      </Button>
+    </div>
+  );
+}
+
+export default function MySignupPage({ onNavigate }: { onNavigate?: (page: string) => void }) {
+  const [session, setSession] = useState<PortalSession | null>(loadPortalSession);
+  const [data, setData] = useState<PortalSignups | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const signOut = useCallback((message: string | null = null) => {
+    clearPortalSession();
+    setSession(null);
+    setData(null);
+    setNotice(message);
+  }, []);
+
+  const fetchSignups = useCallback(async () => {
+    if (!session) return;
+
+    setError(null);
+    const result = await getMySignups(session.token);
+    if (result.ok) {
+      setData(result.data);
+    } else if (result.status === 401) {
+      signOut(result.message ?? null);
+    } else {
+      setError(result.message ?? "Could not load your sign up");
+    }
+  }, [session, signOut]);
+
+  useEffect(() => {
+    fetchSignups();
+  }, [fetchSignups]);
+
+  const handleSignedIn = (next: PortalSession) => {
+    savePortalSession(next);
+    setNotice(null);
+    setSession(next);
+  };
+
+  const handleSignOut = async () => {
+    if (session) await closePortalSession(session.token);
+    signOut();
+  };
+
+  const renderBody = () => {
+    if (!session) {
+      return (
+        <>
+          {notice && <p className="mb-4 text-sm text-gray-600 text-center">{notice}</p>}
+          <PortalSignIn onSignedIn={handleSignedIn} />
+        </>
+      );
+    }
+    if (error) {
+      return <p className="text-center text-red-600" role="alert">{error}</p>;
+    }
+    if (!data) {
+      return <p className="text-center text-gray-600">Loading your sign up...</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+          <span>
+            Signed in as <span className="font-medium text-gray-900">{session.email}</span>
+          </span>
+          <button type="button" onClick={handleSignOut} className="underline hover:text-black">Sign out</button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {data.editable
+            ? data.deadline
+              ? `You can change or withdraw your sign up until ${formatDeadline(data.deadline)}.`
+              : `You can change or withdraw your sign up until matching starts.`
+            : `Matching has started, so sign ups can no longer be changed. Reach out to an officer if something is wrong.`}
+        </p>
+
+        {data.previous.length > 0 && !data.signups.some(signup => signup.kind === 'mentor') && (
+          <ReturningMentorCard previous={data.previous[0]} cohort={data.cohort} onNavigate={onNavigate} />
+        )}
+
+        {data.signups.length === 0 ? (
+          data.previous.length === 0 && <p className="text-center text-gray-600">You don't have a sign up right now.</p>
+        ) : (
+          data.signups.map(signup => (
+            <SignupCard
+              key={`${signup.kind}-${signup.record.id}`}
+              signup={signup}
+              editable={data.editable}
+              token={session.token}
+              onChanged={fetchSignups}
+              onSessionExpired={() => signOut("Your session has expired. Please sign in again.")}
+            />
+          ))
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-12 px-4">
+      <div className="max-w-[720px] mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">My Sign-up</h1>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 md:p-10">
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "./ui/input-otp";
+import { validateEmail } from "../utils/formValidation";
+import { PortalSession, openPortalSession, requestPortalCode } from "../utils/api";
+
+const CODE_LENGTH = 6;
+
+// Kept for the browser tab only, so a shared computer doesn't stay signed in
+const SESSION_STORAGE_KEY = 'acs-my-signup-session';
+
+export const loadPortalSession = (): PortalSession | null => {
+  try {
+    const session: PortalSession | null = JSON.parse(sessionStorage.getItem(SESSION_STORAGE_KEY) ?? 'null');
+    return session && Date.parse(session.expiresAt) > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePortalSession = (session: PortalSession) => {
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearPortalSession = () => {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+interface PortalSignInProps {
+  onSignedIn: (session: PortalSession) => void;
+  // What the code opens, e.g. "view or change your answers"
+  purpose?: string;
+}
+
+// Email a code to an RIT address and trade it for a "My sign-up" session
+export default function PortalSignIn({ onSignedIn, purpose = "view or change your answers" }: PortalSignInProps) {
+  const [email, setEmail] = useState("");
+  const [codeRequested, setCodeRequested] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!validateEmail(normalizedEmail)) {
+      setError("Please enter a valid RIT email address (@rit.edu)");
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    const result = await requestPortalCode(normalizedEmail);
+    setIsBusy(false);
+
+    if (result.ok) {
+      setCodeRequested(true);
+      setCode("");
+      setNotice(result.data);
+    } else {
+      setError(result.errors.email ?? result.message ?? "Could not send a code");
+    }
+  };
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== CODE_LENGTH) {
+      setError("Enter the 6 digit code from your email");
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    const result = await openPortalSession(normalizedEmail, value);
+    setIsBusy(false);
+
+    if (result.ok) {
+      onSignedIn(result.data);
+    } else {
+      setError(result.errors.code ?? result.message ?? "Could not sign you in");
+      setCode("");
+    }
+  };
+
+  if (!codeRequested) {
+    return (
+      <form onSubmit={handleRequestCode} className="space-y-5" noValidate>
+        <p className="text-gray-600 text-center">
+          Enter the RIT email you signed up with and we'll send you a code to {purpose}.
+        </p>
+        <div>
+          <Label htmlFor="my-signup-email" className="text-gray-800 font-medium mb-2 block">RIT Email</Label>
+          <Input
+            id="my-signup-email"
+            type="email"
+            value={email}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              setError(null);
+            }}
+            placeholder="abc1234@rit.edu"
+            className="h-12 px-4 border-2 rounded-xl"
+            aria-invalid={error ? 'true' : 'false'}
+          />
+        </div>
+        {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+        <Button
+          type="submit"
+          disabled={isBusy}
+          className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl"
+        >
+          {isBusy ? 'Sending...' : 'Email me a code'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="text-center space-y-4">
+      <p className="text-gray-600">{notice}</p>
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          onComplete={(value: string) => handleVerify(value)}
+          disabled={isBusy}
+          aria-invalid={error ? 'true' : 'false'}
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg" />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+      <Button
+        type="button"
+        onClick={() => handleVerify()}
+        disabled={isBusy}
+        className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl"
+      >
+        {isBusy ? 'Checking...' : 'Sign in'}
+      </Button>
+      <button
+        type="button"
+        onClick={() => handleRequestCode()}
+        className="text-sm text-gray-600 underline hover:text-black"
+      >
+        Send a new code
+      </button>
+    </div>
+  );
+}
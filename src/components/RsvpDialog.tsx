@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Event } from "../data/events";
+import { submitRsvp } from "../utils/api";
+import { RsvpCounts, RsvpErrors, RsvpResponse, validateRsvp } from "../utils/rsvpSchema";
+
+interface RsvpDialogProps {
+  event: Event | null;
+  onClose: () => void;
+  onSaved: (eventId: number, counts: RsvpCounts) => void;
+}
+
+const RESPONSE_LABELS: Record<RsvpResponse, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: 'Not going',
+};
+
+// Remembered so returning visitors don't retype their email for every event
+const EMAIL_STORAGE_KEY = 'acs-rsvp-email';
+
+export default function RsvpDialog({ event, onClose, onSaved }: RsvpDialogProps) {
+  const [email, setEmail] = useState("");
+  const [response, setResponse] = useState<RsvpResponse>('going');
+  const [errors, setErrors] = useState<RsvpErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start fresh each time the dialog opens for an event
+  useEffect(() => {
+    if (!event) return;
+    setEmail(localStorage.getItem(EMAIL_STORAGE_KEY) ?? "");
+    setResponse('going');
+    setErrors({});
+    setSubmitError(null);
+    setConfirmation(null);
+  }, [event]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event) return;
+
+    const formData = { email: email.trim().toLowerCase(), response };
+    const validationErrors = validateRsvp(formData);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    const result = await submitRsvp(event.id, formData.email, formData.response);
+    setIsSubmitting(false);
+
+    if (result.ok) {
+      localStorage.setItem(EMAIL_STORAGE_KEY, formData.email);
+      onSaved(event.id, result.data.counts);
+
+      const { waitlistPosition } = result.data.rsvp;
+      setConfirmation(
+        waitlistPosition
+          ? `${event.title} is full, so you're #${waitlistPosition} on the waitlist. We'll save you a spot if one opens up.`
+          : response === 'going'
+            ? `You're going to ${event.title}. See you there!`
+            : `Thanks for letting us know. Your RSVP is saved as "${RESPONSE_LABELS[response]}".`
+      );
+    } else {
+      setErrors(result.errors);
+      setSubmitError(result.message ?? "Could not save your RSVP");
+    }
+  };
+
+  return (
+    <Dialog open={event !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>RSVP: {event?.title}</DialogTitle>
+          <DialogDescription>
+            {event ? `${event.date} · ${event.time} @ ${event.location}` : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {confirmation ? (
+          <div className="space-y-4">
+            <p className="text-gray-700">{confirmation}</p>
+            <Button onClick={onClose} className="w-full bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5" noValidate>
+            <div>
+              <Label htmlFor="rsvp-email" className="mb-2 block">RIT Email</Label>
+              <Input
+                id="rsvp-email"
+                type="email"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setErrors(prev => ({ ...prev, email: undefined }));
+                }}
+                placeholder="abc1234@rit.edu"
+                aria-invalid={errors.email ? 'true' : 'false'}
+              />
+              {errors.email && <p className="mt-1 text-sm text-red-600" role="alert">{errors.email}</p>}
+            </div>
+
+            <RadioGroup
+              value={response}
+              onValueChange={(value) => setResponse(value as RsvpResponse)}
+              className="flex gap-6"
+            >
+              {(Object.keys(RESPONSE_LABELS) as RsvpResponse[]).map(option => (
+                <div key={option} className="flex items-center gap-2">
+                  <RadioGroupItem value={option} id={`rsvp-${option}`} />
+                  <Label htmlFor={`rsvp-${option}`}>{RESPONSE_LABELS[option]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            {errors.response && <p className="text-sm text-red-600" role="alert">{errors.response}</p>}
+
+            {submitError && <p className="text-sm text-red-600" role="alert">{submitError}</p>}
+
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black"
+            >
+              {isSubmitting ? 'Saving...' : 'Save RSVP'}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
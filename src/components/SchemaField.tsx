@@ -0,0 +1,155 @@
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Checkbox } from "./ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { FieldValue, FormField } from "../utils/formSchema";
+import AvailabilityGrid from "./AvailabilityGrid";
+
+interface SchemaFieldProps {
+  field: FormField;
+  value: FieldValue | undefined;
+  error?: string;
+  onChange: (value: FieldValue) => void;
+  // Prefix for element ids when the same question appears more than once on a page
+  idPrefix?: string;
+}
+
+const fieldClass = (hasError: boolean) =>
+  `text-gray-900 bg-white border-2 rounded-xl transition-all duration-200 focus:outline-none focus:ring-0 ${
+    hasError
+      ? 'border-red-400 focus:border-red-500 bg-red-50'
+      : 'border-gray-200 focus:border-[#8bd4e0] hover:border-gray-300'
+  }`;
+
+export function FieldError({ id, message }: { id?: string; message: string }) {
+  return (
+    <p id={id} className="mt-2 text-sm text-red-600 flex items-center gap-1" role="alert">
+      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+      </svg>
+      {message}
+    </p>
+  );
+}
+
+// One sign up question rendered from its schema definition
+export default function SchemaField({ field, value, error, onChange, idPrefix = '' }: SchemaFieldProps) {
+  const id = `${idPrefix}${field.id}`;
+  const errorId = `${id}-error`;
+  const describedBy = error ? errorId : field.helpText ? `${id}-help` : undefined;
+
+  const renderControl = () => {
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <Textarea
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={field.placeholder}
+            rows={4}
+            aria-invalid={error ? 'true' : 'false'}
+            aria-describedby={describedBy}
+            className={`p-4 resize-none ${fieldClass(!!error)}`}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={typeof value === 'string' ? value : ''} onValueChange={onChange}>
+            <SelectTrigger
+              id={id}
+              aria-invalid={error ? 'true' : 'false'}
+              aria-describedby={describedBy}
+              className={`h-12 px-4 ${fieldClass(!!error)}`}
+            >
+              <SelectValue placeholder={field.placeholder ?? 'Select an option'} className="text-gray-500" />
+            </SelectTrigger>
+            <SelectContent className="rounded-xl border-2 border-gray-200 shadow-lg">
+              {(field.options ?? []).map(option => (
+                <SelectItem
+                  key={option}
+                  value={option}
+                  className="cursor-pointer hover:bg-[#f0fafa] focus:bg-[#f0fafa] rounded-lg mx-1"
+                >
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'multi-select': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div id={id} role="group" aria-describedby={describedBy} className="space-y-2">
+            {(field.options ?? []).map(option => (
+              <label key={option} className="flex items-center gap-3 text-gray-900 cursor-pointer">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => onChange(
+                    checked === true ? [...selected, option] : selected.filter(item => item !== option)
+                  )}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'availability':
+        return (
+          <AvailabilityGrid
+            id={id}
+            value={Array.isArray(value) ? value : []}
+            onChange={onChange}
+            invalid={!!error}
+            describedBy={describedBy}
+          />
+        );
+      case 'checkbox':
+        return null;
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.validators?.some(validator => validator.rule === 'ritEmail') ? 'email' : 'text'}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={field.placeholder}
+            aria-invalid={error ? 'true' : 'false'}
+            aria-describedby={describedBy}
+            className={`h-12 px-4 ${fieldClass(!!error)}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div>
+      {field.type === 'checkbox' ? (
+        <label htmlFor={id} className="flex items-start gap-3 text-gray-800 font-medium cursor-pointer">
+          <Checkbox
+            id={id}
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked === true)}
+            aria-invalid={error ? 'true' : 'false'}
+            aria-describedby={describedBy}
+            className="mt-0.5"
+          />
+          <span>
+            {field.label}
+            {!field.required && <span className="text-gray-500 font-normal"> (optional)</span>}
+          </span>
+        </label>
+      ) : (
+        <Label htmlFor={id} className="text-gray-800 font-medium mb-2 block">
+          {field.label}
+          {!field.required && <span className="text-gray-500 font-normal"> (optional)</span>}
+        </Label>
+      )}
+      {field.helpText && <p id={`${id}-help`} className="mb-2 text-sm text-gray-500">{field.helpText}</p>}
+      {renderControl()}
+      {error && <FieldError id={errorId} message={error} />}
+    </div>
+  );
+}
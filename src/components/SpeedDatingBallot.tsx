@@ -0,0 +1,257 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { BallotErrors, BallotInfo, PortalSession, getBallotCandidates, submitBallot } from "../utils/api";
+import PortalSignIn, { clearPortalSession, loadPortalSession, savePortalSession } from "./PortalSignIn";
+
+const formatDeadline = (deadline: string) =>
+  new Date(deadline).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+function ErrorMessage({ id, message }: { id?: string; message: string }) {
+  return (
+    <p id={id} className="mt-2 text-sm text-red-600 flex items-center gap-1" role="alert">
+      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+      </svg>
+      {message}
+    </p>
+  );
+}
+
+// Ballots are tied to the "My sign-up" session, so only the owner of an RIT email can rank
+// with it or see its rankings
+function BallotForm() {
+  const [session, setSession] = useState<PortalSession | null>(loadPortalSession);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [ballot, setBallot] = useState<BallotInfo | null>(null);
+  const [rankings, setRankings] = useState<string[]>([]);
+  const [errors, setErrors] = useState<BallotErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const signOut = useCallback((message: string | null) => {
+    clearPortalSession();
+    setSession(null);
+    setBallot(null);
+    setNotice(message);
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    setSubmitError(null);
+    getBallotCandidates(session.token).then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setBallot(result.data);
+        setRankings(result.data.rankings);
+      } else if (result.status === 401) {
+        signOut(result.message ?? null);
+      } else {
+        setSubmitError(result.errors.email ?? result.message ?? "Something went wrong. Please try again.");
+      }
+    });
+    return () => { cancelled = true; };
+  }, [session, signOut]);
+
+  const handleSignedIn = (next: PortalSession) => {
+    savePortalSession(next);
+    setNotice(null);
+    setSession(next);
+  };
+
+  const handleSubmit = async () => {
+    if (rankings.length === 0) {
+      setErrors({ rankings: "Please rank at least one person you met" });
+      return;
+    }
+
+    setIsLoading(true);
+    setSubmitError(null);
+    const result = await submitBallot(session!.token, rankings);
+    setIsLoading(false);
+
+    if (result.ok) {
+      setIsSubmitted(true);
+    } else if (result.status === 401) {
+      signOut(result.message ?? null);
+    } else if (Object.keys(result.errors).length > 0) {
+      setErrors(result.errors);
+    } else {
+      setSubmitError(result.message ?? "Something went wrong. Please try again.");
+    }
+  };
+
+  const addRanking = (id: string) => {
+    setRankings(prev => [...prev, id]);
+    setErrors(prev => ({ ...prev, rankings: undefined }));
+  };
+
+  const removeRanking = (id: string) => {
+    setRankings(prev => prev.filter(rankedId => rankedId !== id));
+  };
+
+  // Swap a ranked person with their neighbour
+  const moveRanking = (index: number, direction: -1 | 1) => {
+    setRankings(prev => {
+      const next = [...prev];
+      const target = index + direction;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center max-w-md mx-auto">
+        <div className="w-16 h-16 bg-[#8bd4e0] rounded-full flex items-center justify-center mx-auto mb-6">
+          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Thank You!</h2>
+        <p className="text-gray-600 leading-relaxed">
+          Your Speed Dating rankings have been saved.
+          {ballot?.deadline && ` You can update them until ${formatDeadline(ballot.deadline)}.`}
+        </p>
+      </div>
+    );
+  }
+
+  const candidatesById = new Map(ballot?.candidates.map(candidate => [candidate.id, candidate]));
+  const unranked = ballot?.candidates.filter(candidate => !rankings.includes(candidate.id)) ?? [];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 md:p-10">
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-3">Speed Dating Ballot</h2>
+        <p className="text-gray-600 mb-2">
+          Rank the people you met at Speed Dating, starting with who you'd most like to be paired with.
+        </p>
+        {ballot?.deadline && (
+          <p className="text-sm text-gray-500">
+            {ballot.open ? `Ballots close ${formatDeadline(ballot.deadline)}` : `Ballots closed ${formatDeadline(ballot.deadline)}`}
+          </p>
+        )}
+      </div>
+
+      {!session ? (
+        <>
+          {notice && <p className="mb-4 text-sm text-gray-600 text-center">{notice}</p>}
+          <PortalSignIn onSignedIn={handleSignedIn} purpose="open your Speed Dating ballot" />
+        </>
+      ) : !ballot ? (
+        submitError
+          ? <ErrorMessage message={submitError} />
+          : <p className="text-center text-gray-600">Loading your ballot...</p>
+      ) : !ballot.open ? (
+        <p className="text-center text-gray-600">
+          The Speed Dating ballot is closed. Officers are now working on pairings.
+        </p>
+      ) : (
+        <div className="space-y-7">
+          {/* Current ranking */}
+          <div>
+            <h3 className="text-gray-800 font-medium mb-2">Your ranking</h3>
+            {rankings.length === 0 ? (
+              <p className="text-sm text-gray-500">Pick people from the list below to start your ranking.</p>
+            ) : (
+              <ol className="space-y-2">
+                {rankings.map((id, index) => (
+                  <li key={id} className="flex items-center gap-3 border-2 border-gray-200 rounded-xl px-4 py-2">
+                    <span className="font-bold text-gray-900 w-6">{index + 1}</span>
+                    <span className="flex-1 text-gray-900">
+                      {candidatesById.get(id)?.name}
+                      <span className="text-sm text-gray-500"> · {candidatesById.get(id)?.major}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => moveRanking(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 text-gray-600 hover:text-black disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveRanking(index, 1)}
+                      disabled={index === rankings.length - 1}
+                      className="px-2 text-gray-600 hover:text-black disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeRanking(id)}
+                      className="px-2 text-gray-600 hover:text-red-600"
+                      aria-label="Remove from ranking"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {errors.rankings && <ErrorMessage message={errors.rankings} />}
+          </div>
+
+          {/* People not yet ranked */}
+          {unranked.length > 0 && (
+            <div>
+              <h3 className="text-gray-800 font-medium mb-2">
+                {ballot.role === 'mentor' ? 'Mentees' : 'Mentors'} you may have met
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {unranked.map(candidate => (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    onClick={() => addRanking(candidate.id)}
+                    className="px-3 py-2 rounded-xl border-2 border-gray-200 hover:border-[#8bd4e0] text-sm text-gray-900 transition-colors"
+                  >
+                    {candidate.name} <span className="text-gray-500">· {candidate.major}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {submitError && <ErrorMessage message={submitError} />}
+
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isLoading}
+            className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl transition-all duration-200 hover:shadow-lg"
+          >
+            {isLoading ? "Submitting..." : "Submit Ranking"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SpeedDatingBallot() {
+  return (
+    <div className="py-12 px-4">
+      <div className="max-w-[720px] mx-auto">
+        {/* Simple Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Speed Dating</h1>
+        </div>
+
+        <BallotForm />
+      </div>
+    </div>
+  );
+}
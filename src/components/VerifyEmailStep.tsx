@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "./ui/input-otp";
+import { SignupKind, resendVerificationCode, verifySignup } from "../utils/api";
+
+interface VerifyEmailStepProps {
+  kind: SignupKind;
+  id: string;
+  email: string;
+  codeSent: boolean;
+  onVerified: () => void;
+}
+
+const CODE_LENGTH = 6;
+
+// Second step of a sign up: enter the code mailed to the student's RIT address
+export default function VerifyEmailStep({ kind, id, email, codeSent, onVerified }: VerifyEmailStepProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(
+    codeSent ? null : "We couldn't send your code. Use \"Send a new code\" to try again."
+  );
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== CODE_LENGTH) {
+      setError("Enter the 6 digit code from your email");
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+    const result = await verifySignup(kind, id, value);
+    setIsVerifying(false);
+
+    if (result.ok) {
+      onVerified();
+    } else {
+      setError(result.errors.code ?? result.message ?? "Could not verify your email");
+      setCode("");
+    }
+  };
+
+  const handleResend = async () => {
+    setError(null);
+    setNotice(null);
+    const result = await resendVerificationCode(kind, id);
+
+    if (result.ok) {
+      setNotice(`A new code is on its way to ${email}.`);
+    } else {
+      setError(result.message ?? "Could not send a new code");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center max-w-md mx-auto">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4">Check your email</h2>
+      <p className="text-gray-600 leading-relaxed mb-6">
+        We sent a 6 digit code to <span className="font-medium text-gray-900">{email}</span>.
+        Enter it below to confirm your sign up.
+      </p>
+
+      <div className="flex justify-center mb-4">
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          onComplete={(value: string) => handleVerify(value)}
+          disabled={isVerifying}
+          aria-invalid={error ? 'true' : 'false'}
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg" />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+      )}
+      {notice && (
+        <p className="mb-4 text-sm text-gray-600">{notice}</p>
+      )}
+
+      <Button
+        type="button"
+        onClick={() => handleVerify()}
+        disabled={isVerifying}
+        className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl transition-all duration-200 hover:shadow-lg"
+      >
+        {isVerifying ? "Verifying..." : "Verify"}
+      </Button>
+      <button
+        type="button"
+        onClick={handleResend}
+        className="mt-4 text-sm text-gray-600 underline hover:text-black"
+      >
+        Send a new code
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,625 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Badge } from "../ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "../ui/sidebar";
+import ACSLogo from "../ACSLogo";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import RecordDetailsSheet, { DetailField } from "./RecordDetailsSheet";
+import OfficersPanel from "./OfficersPanel";
+import EventsPanel from "./EventsPanel";
+import PointsPanel from "./PointsPanel";
+import FamiliesPanel from "./FamiliesPanel";
+import SignupHistory from "./SignupHistory";
+import FormSchemaPanel from "./FormSchemaPanel";
+import CohortsPanel from "./CohortsPanel";
+import {
+  MatchRecord,
+  MatchRun,
+  MenteeRecord,
+  MentorRecord,
+  Officer,
+  deleteMentee,
+  deleteMentor,
+  getAdminMatches,
+  getAdminMentees,
+  getAdminMentors,
+  getCohorts,
+  getCurrentOfficer,
+  requestMagicLink,
+  runMatching,
+  setActiveCohort,
+} from "../../utils/api";
+import { validateEmail } from "../../utils/formValidation";
+import { FormField, coerceAnswers, formatAnswer } from "../../utils/formSchema";
+import { useFormSchema } from "../../hooks/useFormSchema";
+import { sharedHours, sharedSlots, summarizeAvailability } from "../../utils/availability";
+import { CohortRegistry } from "../../utils/cohortSchema";
+import { supabase } from "../../utils/supabase/client";
+
+type Section = 'signups' | 'matches' | 'families' | 'questions' | 'events' | 'points' | 'officers' | 'cohorts';
+
+const SECTION_TITLES: Record<Section, string> = {
+  signups: 'Sign-ups',
+  matches: 'Matches',
+  families: 'Families',
+  questions: 'Sign-up questions',
+  events: 'Events',
+  points: 'Points',
+  officers: 'Officers',
+  cohorts: 'Cohorts',
+};
+
+// Whatever row is open in the details drawer
+type Selected =
+  | { type: 'mentor'; record: MentorRecord }
+  | { type: 'mentee'; record: MenteeRecord }
+  | { type: 'match'; record: MatchRecord };
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const mentorColumns: Column<MentorRecord>[] = [
+  { key: 'name', label: 'Name', value: row => row.name },
+  { key: 'email', label: 'Email', value: row => row.email },
+  { key: 'major', label: 'Major', value: row => row.major, filterable: true },
+  { key: 'year', label: 'Year', value: row => row.year, filterable: true },
+  { key: 'status', label: 'Verification', value: row => row.status ?? 'verified', filterable: true },
+  { key: 'createdAt', label: 'Submitted', value: row => row.createdAt, render: row => formatTimestamp(row.createdAt) },
+];
+
+const menteeColumns: Column<MenteeRecord>[] = [
+  { key: 'name', label: 'Name', value: row => row.name },
+  { key: 'email', label: 'Email', value: row => row.email },
+  { key: 'major', label: 'Major', value: row => row.major, filterable: true },
+  { key: 'year', label: 'Year', value: row => row.year, filterable: true },
+  { key: 'status', label: 'Verification', value: row => row.status ?? 'verified', filterable: true },
+  { key: 'createdAt', label: 'Submitted', value: row => row.createdAt, render: row => formatTimestamp(row.createdAt) },
+];
+
+function AdminLogin({ error }: { error: string | null }) {
+  const [email, setEmail] = useState("");
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const normalized = email.trim().toLowerCase();
+    if (!validateEmail(normalized)) {
+      setEmailError("Please enter a valid RIT email address (@rit.edu)");
+      return;
+    }
+
+    setIsSending(true);
+    setEmailError(null);
+    const result = await requestMagicLink(normalized);
+    setIsSending(false);
+
+    if (result.ok) {
+      setMessage(result.data);
+    } else {
+      setEmailError(result.errors.email ?? result.message ?? "Could not send a sign in link");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#69d7e5] flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 w-full max-w-sm space-y-6"
+      >
+        <div className="flex flex-col items-center gap-3">
+          <ACSLogo size={61} />
+          <h1 className="text-2xl font-bold text-gray-900">Officer Dashboard</h1>
+        </div>
+        {message ? (
+          <p className="text-center text-gray-600">{message}</p>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="admin-email" className="text-gray-800 font-medium mb-2 block">
+                RIT Email
+              </Label>
+              <Input
+                id="admin-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="abc1234@rit.edu"
+                className="h-12 px-4 border-2 rounded-xl"
+              />
+              {(emailError || error) && (
+                <p className="mt-2 text-sm text-red-600" role="alert">{emailError ?? error}</p>
+              )}
+            </div>
+            <Button
+              type="submit"
+              disabled={isSending}
+              className="w-full h-12 bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black font-medium rounded-xl"
+            >
+              {isSending ? 'Sending…' : 'Email me a sign in link'}
+            </Button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
+
+export default function AdminDashboard() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [officer, setOfficer] = useState<Officer | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [section, setSection] = useState<Section>('signups');
+  const [mentors, setMentors] = useState<MentorRecord[]>([]);
+  const [mentees, setMentees] = useState<MenteeRecord[]>([]);
+  const [matches, setMatches] = useState<MatchRecord[]>([]);
+  const [run, setRun] = useState<MatchRun | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [cohorts, setCohorts] = useState<CohortRegistry | null>(null);
+  const [cohortId, setCohortId] = useState<string | null>(null);
+
+  const cohort = cohorts?.cohorts.find(item => item.id === cohortId);
+  const isArchived = cohort?.status === 'archived';
+  const mentorFields = useFormSchema('mentor', cohort?.name);
+  const menteeFields = useFormSchema('mentee', cohort?.name);
+
+  const accessToken = session?.access_token ?? "";
+  const isEboard = officer?.role === 'eboard';
+
+  // Supabase picks the magic link session out of the URL and keeps it refreshed
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+    const { data } = supabase.auth.onAuthStateChange((_event, nextSession) => setSession(nextSession));
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const signOut = async (message: string | null = null) => {
+    await supabase.auth.signOut();
+    setOfficer(null);
+    setAuthError(message);
+  };
+
+  const fetchCohorts = useCallback(async () => {
+    const result = await getCohorts();
+    if (result.ok) {
+      setCohorts(result.data);
+      // Open on the current cohort; keep the one being viewed when the list changes
+      setCohortId(id => {
+        const next = id && result.data.cohorts.some(item => item.id === id) ? id : result.data.currentId;
+        setActiveCohort(next);
+        return next;
+      });
+    } else {
+      setError(result.message ?? "Could not load cohorts");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCohorts();
+  }, [fetchCohorts]);
+
+  const handleCohortChange = (id: string) => {
+    setActiveCohort(id);
+    setCohortId(id);
+    setSelected(null);
+  };
+
+  const fetchData = useCallback(async () => {
+    if (!accessToken || !cohortId) return;
+
+    setLoading(true);
+    setError(null);
+
+    const [officerResult, mentorResult, menteeResult, matchResult] = await Promise.all([
+      getCurrentOfficer(accessToken),
+      getAdminMentors(accessToken),
+      getAdminMentees(accessToken),
+      getAdminMatches(accessToken),
+    ]);
+
+    setLoading(false);
+
+    for (const result of [officerResult, mentorResult, menteeResult, matchResult]) {
+      if (!result.ok) {
+        if (result.status === 401 || result.status === 403) {
+          signOut(result.message ?? "You don't have access to the officer dashboard.");
+        } else {
+          setError(result.message ?? "Could not load dashboard data");
+        }
+        return;
+      }
+    }
+
+    if (officerResult.ok) setOfficer(officerResult.data);
+    if (mentorResult.ok) setMentors(mentorResult.data);
+    if (menteeResult.ok) setMentees(menteeResult.data);
+    if (matchResult.ok) {
+      setMatches(matchResult.data.matches);
+      setRun(matchResult.data.run);
+    }
+  }, [accessToken, cohortId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleRunMatching = async () => {
+    if (!window.confirm("Re-run matching? This replaces the current proposed matches.")) return;
+
+    setLoading(true);
+    const result = await runMatching(accessToken);
+    setLoading(false);
+
+    if (result.ok) {
+      setMatches(result.data.matches);
+      setRun(result.data.run);
+    } else {
+      setError(result.message ?? "Could not run matching");
+    }
+  };
+
+  // Remove a sign up (e-board only); the server also drops its proposed matches
+  const handleDelete = async () => {
+    if (!selected || selected.type === 'match') return;
+    if (!window.confirm(`Delete ${selected.record.name}'s ${selected.type} sign-up? This can't be undone.`)) return;
+
+    const result = selected.type === 'mentor'
+      ? await deleteMentor(accessToken, selected.record.id)
+      : await deleteMentee(accessToken, selected.record.id);
+
+    if (result.ok) {
+      setSelected(null);
+      fetchData();
+    } else {
+      setError(result.message ?? "Could not delete sign-up");
+    }
+  };
+
+  if (!session) {
+    return <AdminLogin error={authError} />;
+  }
+
+  const mentorsById = new Map(mentors.map(mentor => [mentor.id, mentor]));
+  const menteesById = new Map(mentees.map(mentee => [mentee.id, mentee]));
+
+  const matchColumns: Column<MatchRecord>[] = [
+    { key: 'mentor', label: 'Mentor', value: row => mentorsById.get(row.mentorId)?.name ?? row.mentorId },
+    { key: 'mentee', label: 'Mentee', value: row => menteesById.get(row.menteeId)?.name ?? row.menteeId },
+    { key: 'score', label: 'Score', value: row => Math.round(row.score * 10) / 10 },
+    {
+      key: 'sharedHours',
+      label: 'Shared hours',
+      value: row => sharedHours(mentorsById.get(row.mentorId)?.availability, menteesById.get(row.menteeId)?.availability),
+    },
+    { key: 'status', label: 'Status', value: row => row.status, filterable: true },
+  ];
+
+  // Answers to questions officers added this semester
+  const addedAnswers = (fields: FormField[] | null, record: object): DetailField[] => {
+    const added = (fields ?? []).filter(field => !field.locked);
+    const answers = coerceAnswers(added, record as Record<string, unknown>);
+    return added.map(field => ({ label: field.label, value: formatAnswer(field, answers[field.id]) }));
+  };
+
+  const detailFields = (): DetailField[] => {
+    if (!selected) return [];
+
+    if (selected.type === 'mentor') {
+      const { record } = selected;
+      return [
+        { label: 'Email', value: record.email },
+        { label: 'Major', value: record.major },
+        { label: 'Year', value: record.year },
+        { label: 'Goals as a mentor', value: record.mentorGoals },
+        { label: 'Hobbies', value: record.hobbies },
+        { label: 'Availability', value: summarizeAvailability(record.availability) },
+        ...addedAnswers(mentorFields, record),
+        { label: 'Email status', value: record.status ?? 'verified' },
+        { label: 'Submitted', value: formatTimestamp(record.createdAt) },
+        { label: 'Last edited', value: record.updatedAt ? formatTimestamp(record.updatedAt) : '' },
+      ];
+    }
+
+    if (selected.type === 'mentee') {
+      const { record } = selected;
+      return [
+        { label: 'Email', value: record.email },
+        { label: 'Major', value: record.major },
+        { label: 'Year', value: record.year },
+        { label: 'Wants help with', value: record.helpWanted },
+        { label: 'Looking for in a mentor', value: record.mentorTraits },
+        { label: 'Hobbies', value: record.hobbies },
+        { label: 'Availability', value: summarizeAvailability(record.availability) },
+        ...addedAnswers(menteeFields, record),
+        { label: 'Email status', value: record.status ?? 'verified' },
+        { label: 'Submitted', value: formatTimestamp(record.createdAt) },
+        { label: 'Last edited', value: record.updatedAt ? formatTimestamp(record.updatedAt) : '' },
+      ];
+    }
+
+    const { record } = selected;
+    const mentor = mentorsById.get(record.mentorId);
+    const mentee = menteesById.get(record.menteeId);
+    return [
+      { label: 'Mentor', value: mentor ? `${mentor.name} (${mentor.major}, ${mentor.year})` : record.mentorId },
+      { label: 'Mentee', value: mentee ? `${mentee.name} (${mentee.major}, ${mentee.year})` : record.menteeId },
+      { label: 'Score', value: record.score.toFixed(1) },
+      { label: 'Free at the same time', value: summarizeAvailability(sharedSlots(mentor?.availability, mentee?.availability)) },
+      { label: 'Why', value: record.reasons.join('\n') },
+      { label: 'Proposed', value: formatTimestamp(record.createdAt) },
+    ];
+  };
+
+  const detailTitle = () => {
+    if (!selected) return '';
+    if (selected.type === 'match') {
+      const mentor = mentorsById.get(selected.record.mentorId)?.name ?? 'Mentor';
+      const mentee = menteesById.get(selected.record.menteeId)?.name ?? 'Mentee';
+      return `${mentor} & ${mentee}`;
+    }
+    return selected.record.name;
+  };
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <div className="flex items-center gap-2 px-2 py-1">
+            <ACSLogo size={32} />
+            <span className="font-bold">ACS Officers</span>
+          </div>
+          {cohorts && cohortId && (
+            <Select value={cohortId} onValueChange={handleCohortChange}>
+              <SelectTrigger aria-label="Cohort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {cohorts.cohorts.map(item => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                    {item.id === cohorts.currentId ? ' (current)' : item.status === 'archived' ? ' (archived)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Mentor/Mentee</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={section === 'signups'} onClick={() => setSection('signups')}>
+                    Sign-ups
+                  </SidebarMenuButton>
+                  <SidebarMenuBadge>{mentors.length + mentees.length}</SidebarMenuBadge>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={section === 'matches'} onClick={() => setSection('matches')}>
+                    Matches
+                  </SidebarMenuButton>
+                  <SidebarMenuBadge>{matches.length}</SidebarMenuBadge>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={section === 'families'} onClick={() => setSection('families')}>
+                    Families
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={section === 'questions'} onClick={() => setSection('questions')}>
+                    Sign-up questions
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          <SidebarGroup>
+            <SidebarGroupLabel>Club</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={section === 'events'} onClick={() => setSection('events')}>
+                    Events
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={section === 'points'} onClick={() => setSection('points')}>
+                    Points
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          {isEboard && (
+            <SidebarGroup>
+              <SidebarGroupLabel>E-board</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton isActive={section === 'officers'} onClick={() => setSection('officers')}>
+                      Officers
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton isActive={section === 'cohorts'} onClick={() => setSection('cohorts')}>
+                      Cohorts
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+        </SidebarContent>
+        <SidebarFooter>
+          {officer && (
+            <div className="px-2 text-xs text-gray-500">
+              {officer.email} · {officer.role === 'eboard' ? 'E-board' : 'Officer'}
+            </div>
+          )}
+          <Button variant="outline" onClick={() => signOut()}>Sign out</Button>
+        </SidebarFooter>
+      </Sidebar>
+
+      <SidebarInset>
+        <header className="flex items-center gap-3 border-b px-6 py-4">
+          <SidebarTrigger />
+          <h1 className="text-xl font-bold text-gray-900">
+            {SECTION_TITLES[section]}
+          </h1>
+          <div className="ml-auto flex items-center gap-2">
+            {section === 'matches' && isEboard && !isArchived && (
+              <Button onClick={handleRunMatching} disabled={loading} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+                Run matching
+              </Button>
+            )}
+            <Button variant="outline" onClick={fetchData} disabled={loading}>
+              {loading ? 'Loading…' : 'Refresh'}
+            </Button>
+          </div>
+        </header>
+
+        {/* Panels reload their data when the cohort changes */}
+        <div key={cohortId ?? ''} className="p-6 space-y-4">
+          {error && (
+            <p className="text-sm text-red-600" role="alert">{error}</p>
+          )}
+
+          {cohort && isArchived && (
+            <p className="rounded-md border bg-gray-50 px-4 py-3 text-sm text-gray-700">
+              {cohort.name} is archived. You can look through its records, but nothing in it can be changed.
+            </p>
+          )}
+
+          {section === 'signups' && (
+            <Tabs defaultValue="mentors">
+              <TabsList>
+                <TabsTrigger value="mentors">Mentors ({mentors.length})</TabsTrigger>
+                <TabsTrigger value="mentees">Mentees ({mentees.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="mentors">
+                <AdminDataTable
+                  rows={mentors}
+                  columns={mentorColumns}
+                  getRowId={row => row.id}
+                  onRowClick={record => setSelected({ type: 'mentor', record })}
+                  emptyMessage="No mentor sign-ups yet."
+                />
+              </TabsContent>
+              <TabsContent value="mentees">
+                <AdminDataTable
+                  rows={mentees}
+                  columns={menteeColumns}
+                  getRowId={row => row.id}
+                  onRowClick={record => setSelected({ type: 'mentee', record })}
+                  emptyMessage="No mentee sign-ups yet."
+                />
+              </TabsContent>
+            </Tabs>
+          )}
+
+          {section === 'matches' && (
+            <>
+              {run && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                  <span>Last run {formatTimestamp(run.createdAt)}</span>
+                  <Badge variant="secondary">Capacity {run.capacity}</Badge>
+                  {run.unmatchedMenteeIds.length > 0 && (
+                    <Badge variant="destructive">
+                      {run.unmatchedMenteeIds.length} unmatched mentee{run.unmatchedMenteeIds.length !== 1 ? 's' : ''}
+                    </Badge>
+                  )}
+                </div>
+              )}
+              <AdminDataTable
+                rows={matches}
+                columns={matchColumns}
+                getRowId={row => row.id}
+                onRowClick={record => setSelected({ type: 'match', record })}
+                emptyMessage="No matches yet. Run matching once sign-ups are in."
+              />
+            </>
+          )}
+
+          {section === 'families' && (
+            <FamiliesPanel
+              accessToken={accessToken}
+              isEboard={isEboard}
+              matches={matches}
+              mentorsById={mentorsById}
+              menteesById={menteesById}
+            />
+          )}
+
+          {section === 'questions' && cohort && (
+            <FormSchemaPanel accessToken={accessToken} semester={cohort.name} />
+          )}
+
+          {section === 'events' && (
+            <EventsPanel accessToken={accessToken} isEboard={isEboard} />
+          )}
+
+          {section === 'points' && (
+            <PointsPanel accessToken={accessToken} isEboard={isEboard} />
+          )}
+
+          {section === 'officers' && isEboard && officer && (
+            <OfficersPanel accessToken={accessToken} currentEmail={officer.email} />
+          )}
+
+          {section === 'cohorts' && isEboard && cohorts && (
+            <CohortsPanel accessToken={accessToken} registry={cohorts} viewing={cohort} onChange={fetchCohorts} />
+          )}
+        </div>
+      </SidebarInset>
+
+      <RecordDetailsSheet
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelected(null)}
+        title={detailTitle()}
+        description={selected ? `${selected.type[0].toUpperCase()}${selected.type.slice(1)} details` : undefined}
+        fields={detailFields()}
+      >
+        {selected && selected.type !== 'match' && (
+          <div className="space-y-6">
+            <SignupHistory accessToken={accessToken} kind={selected.type} id={selected.record.id} />
+            {isEboard && !isArchived && (
+              <Button variant="destructive" onClick={handleDelete}>
+                Delete sign-up
+              </Button>
+            )}
+          </div>
+        )}
+      </RecordDetailsSheet>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,171 @@
+import { ReactNode, useMemo, useState } from "react";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+
+export interface Column<T> {
+  key: string;
+  label: string;
+  value: (row: T) => string | number;
+  // Display override; sorting, searching and filtering still use `value`
+  render?: (row: T) => ReactNode;
+  // Show a dropdown filter built from the column's distinct values
+  filterable?: boolean;
+}
+
+interface AdminDataTableProps<T> {
+  rows: T[];
+  columns: Column<T>[];
+  getRowId: (row: T) => string;
+  onRowClick?: (row: T) => void;
+  emptyMessage?: string;
+}
+
+// Radix Select doesn't allow an empty value, so "all" stands in for "no filter"
+const ALL = "__all__";
+
+export default function AdminDataTable<T>({
+  rows,
+  columns,
+  getRowId,
+  onRowClick,
+  emptyMessage = "Nothing here yet.",
+}: AdminDataTableProps<T>) {
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+
+  const filterOptions = useMemo(() => {
+    const options: Record<string, string[]> = {};
+    for (const column of columns.filter(column => column.filterable)) {
+      options[column.key] = [...new Set(rows.map(row => String(column.value(row))))]
+        .filter(Boolean)
+        .sort();
+    }
+    return options;
+  }, [rows, columns]);
+
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    const filtered = rows.filter(row => {
+      const matchesFilters = columns.every(column => {
+        const selected = filters[column.key];
+        return !selected || selected === ALL || String(column.value(row)) === selected;
+      });
+      const matchesSearch = !query || columns.some(column =>
+        String(column.value(row)).toLowerCase().includes(query)
+      );
+      return matchesFilters && matchesSearch;
+    });
+
+    if (!sort) return filtered;
+
+    const column = columns.find(column => column.key === sort.key);
+    if (!column) return filtered;
+
+    return [...filtered].sort((a, b) => {
+      const left = column.value(a);
+      const right = column.value(b);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return sort.direction === 'asc' ? order : -order;
+    });
+  }, [rows, columns, search, sort, filters]);
+
+  // Click once for ascending, again for descending, a third time to clear
+  const toggleSort = (key: string) => {
+    setSort(prev => {
+      if (prev?.key !== key) return { key, direction: 'asc' };
+      if (prev.direction === 'asc') return { key, direction: 'desc' };
+      return null;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 items-center">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search..."
+          className="max-w-xs"
+        />
+        {columns.filter(column => column.filterable).map(column => (
+          <Select
+            key={column.key}
+            value={filters[column.key] ?? ALL}
+            onValueChange={(value) => setFilters(prev => ({ ...prev, [column.key]: value }))}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder={column.label} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All {column.label.toLowerCase()}</SelectItem>
+              {filterOptions[column.key]?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+        <span className="text-sm text-gray-500 ml-auto">
+          Showing {visibleRows.length} of {rows.length}
+        </span>
+      </div>
+
+      <div className="rounded-xl border border-gray-200 bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map(column => (
+                <TableHead key={column.key}>
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(column.key)}
+                    className="flex items-center gap-1 font-medium hover:text-black"
+                  >
+                    {column.label}
+                    {sort?.key === column.key && (sort.direction === 'asc' ? ' ↑' : ' ↓')}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="text-center text-gray-500 py-8">
+                  {emptyMessage}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleRows.map(row => (
+                <TableRow
+                  key={getRowId(row)}
+                  onClick={onRowClick ? () => onRowClick(row) : undefined}
+                  className={onRowClick ? 'cursor-pointer' : undefined}
+                >
+                  {columns.map(column => (
+                    <TableCell key={column.key}>
+                      <div className="max-w-xs truncate" title={String(column.value(row))}>
+                        {column.render ? column.render(row) : column.value(row) || '-'}
+                      </div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
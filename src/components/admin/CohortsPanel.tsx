@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Badge } from "../ui/badge";
+import { Label } from "../ui/label";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import { archiveCohort, createCohort, rebuildIndexes, setCohortDeadlines, setCurrentCohort } from "../../utils/api";
+import { Cohort, CohortDeadlineErrors, CohortRegistry } from "../../utils/cohortSchema";
+import { nextSemester } from "../../utils/formSchema";
+import { DEFAULT_TIME_ZONE, zonedDay } from "../../utils/eventFormatting";
+
+interface CohortsPanelProps {
+  accessToken: string;
+  registry: CohortRegistry;
+  viewing?: Cohort; // Cohort picked in the sidebar
+  onChange: () => void;
+}
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleDateString() : '';
+
+const deadlineDay = (deadline?: string) => deadline ? zonedDay(deadline, DEFAULT_TIME_ZONE) : '';
+
+interface DeadlinesFormProps {
+  accessToken: string;
+  cohort: Cohort;
+  onChange: () => void;
+}
+
+// When the cohort's Speed Dating ballots close and "My sign-up" stops taking changes
+function DeadlinesForm({ accessToken, cohort, onChange }: DeadlinesFormProps) {
+  const [ballotDay, setBallotDay] = useState(deadlineDay(cohort.ballotDeadline));
+  const [matchingDay, setMatchingDay] = useState(deadlineDay(cohort.matchingDeadline));
+  const [errors, setErrors] = useState<CohortDeadlineErrors>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setErrors({});
+    setMessage(null);
+    const result = await setCohortDeadlines(accessToken, cohort.id, { ballotDay, matchingDay });
+    setIsSaving(false);
+
+    if (result.ok) {
+      setMessage("Deadlines saved.");
+      onChange();
+    } else {
+      setErrors(result.errors);
+      setMessage(result.message ?? "Could not save the deadlines");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {cohort.name} deadlines close at the end of the day, Eastern time. Leave one blank to keep it open.
+      </p>
+      <div className="flex flex-wrap gap-4 items-end">
+        <div>
+          <Label htmlFor="ballot-deadline" className="mb-2 block">Ballots close</Label>
+          <Input id="ballot-deadline" type="date" value={ballotDay} onChange={(e) => setBallotDay(e.target.value)} />
+          {errors.ballotDay && <p className="text-sm text-red-600 mt-1">{errors.ballotDay}</p>}
+        </div>
+        <div>
+          <Label htmlFor="matching-deadline" className="mb-2 block">Sign up changes close</Label>
+          <Input id="matching-deadline" type="date" value={matchingDay} onChange={(e) => setMatchingDay(e.target.value)} />
+          {errors.matchingDay && <p className="text-sm text-red-600 mt-1">{errors.matchingDay}</p>}
+        </div>
+        <Button type="submit" variant="outline" disabled={isSaving}>Save deadlines</Button>
+      </div>
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+    </form>
+  );
+}
+
+// E-board tool for starting a new semester's cohort and archiving old ones
+export default function CohortsPanel({ accessToken, registry, viewing, onChange }: CohortsPanelProps) {
+  const current = registry.cohorts.find(cohort => cohort.id === registry.currentId);
+  const [name, setName] = useState(current ? nextSemester(current.name) : '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [rebuildMessage, setRebuildMessage] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+    const result = await createCohort(accessToken, name.trim());
+    setIsSaving(false);
+
+    if (result.ok) {
+      setName(nextSemester(result.data.name));
+      onChange();
+    } else {
+      setError(result.errors.name ?? result.message ?? "Could not create the cohort");
+    }
+  };
+
+  const handleMakeCurrent = async (cohort: Cohort) => {
+    if (!window.confirm(`Make ${cohort.name} the current cohort? New sign ups and the public calendar will use it.`)) return;
+
+    const result = await setCurrentCohort(accessToken, cohort.id);
+    if (result.ok) {
+      onChange();
+    } else {
+      setError(result.message ?? "Could not change the current cohort");
+    }
+  };
+
+  const handleArchive = async (cohort: Cohort) => {
+    if (!window.confirm(`Archive ${cohort.name}? Its records stay viewable but can no longer be changed.`)) return;
+
+    const result = await archiveCohort(accessToken, cohort.id);
+    if (result.ok) {
+      onChange();
+    } else {
+      setError(result.message ?? "Could not archive the cohort");
+    }
+  };
+
+  const handleRebuild = async () => {
+    setRebuildMessage(null);
+    setError(null);
+    const result = await rebuildIndexes(accessToken);
+    if (result.ok) {
+      const records = Object.values(result.data).reduce((total, rebuilt) => total + rebuilt.records, 0);
+      setRebuildMessage(`Rebuilt the lookup indexes for ${records} record${records === 1 ? '' : 's'}.`);
+    } else {
+      setError(result.message ?? "Could not rebuild the indexes");
+    }
+  };
+
+  const columns: Column<Cohort>[] = [
+    { key: 'name', label: 'Cohort', value: row => row.name },
+    {
+      key: 'status',
+      label: 'Status',
+      value: row => row.id === registry.currentId ? 'Current' : row.status === 'archived' ? 'Archived' : 'Active',
+      render: row => row.id === registry.currentId
+        ? <Badge>Current</Badge>
+        : <Badge variant="secondary">{row.status === 'archived' ? 'Archived' : 'Active'}</Badge>,
+      filterable: true,
+    },
+    { key: 'createdAt', label: 'Created', value: row => formatDate(row.createdAt) },
+    { key: 'archivedAt', label: 'Archived', value: row => formatDate(row.archivedAt) },
+    {
+      key: 'actions',
+      label: '',
+      value: () => '',
+      render: row => row.id === registry.currentId || row.status === 'archived' ? null : (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => handleMakeCurrent(row)}>
+            Make current
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => handleArchive(row)}>
+            Archive
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="flex flex-wrap gap-3 items-center">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Spring 2026"
+          className="max-w-xs"
+        />
+        <Button type="submit" disabled={isSaving || !name.trim()}>
+          Create cohort
+        </Button>
+      </form>
+
+      <p className="text-sm text-muted-foreground">
+        Each cohort has its own sign-ups, matches, families, events and points. Returning mentors can
+        start a new sign-up from their last one on the "My sign-up" page.
+      </p>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <AdminDataTable
+        rows={[...registry.cohorts].reverse()}
+        columns={columns}
+        getRowId={row => row.id}
+        emptyMessage="No cohorts yet."
+      />
+
+      {viewing && viewing.status !== 'archived' && (
+        <DeadlinesForm key={viewing.id} accessToken={accessToken} cohort={viewing} onChange={onChange} />
+      )}
+
+      {viewing && viewing.status !== 'archived' && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            If students can't find their sign-up on "My sign-up" or RSVP counts look wrong, rebuild
+            the {viewing.name} lookup indexes from the stored records.
+          </p>
+          <Button variant="outline" onClick={handleRebuild}>Rebuild lookup indexes</Button>
+          {rebuildMessage && <p className="text-sm text-muted-foreground">{rebuildMessage}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import { checkInUrl } from "../CheckInPage";
+import { getCheckInCode, getEventAttendance } from "../../utils/api";
+import { AttendanceRecord, checkInWindow } from "../../utils/attendanceSchema";
+import { EventRecord } from "../../utils/eventSchema";
+import { downloadCsv } from "../../utils/csv";
+
+interface EventAttendanceProps {
+  accessToken: string;
+  event: EventRecord;
+}
+
+const columns: Column<AttendanceRecord>[] = [
+  { key: 'name', label: 'Name', value: row => row.name },
+  { key: 'email', label: 'Email', value: row => row.email },
+  { key: 'checkedInAt', label: 'Checked in', value: row => row.checkedInAt, render: row => new Date(row.checkedInAt).toLocaleString() },
+];
+
+// Attendance for one event, plus the QR code to display at the door
+export default function EventAttendance({ accessToken, event }: EventAttendanceProps) {
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttendance = useCallback(async () => {
+    const result = await getEventAttendance(accessToken, event.id);
+    if (result.ok) {
+      setAttendance(result.data);
+    } else {
+      setError(result.message ?? "Could not load attendance");
+    }
+  }, [accessToken, event.id]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  const handleShowQr = async () => {
+    const result = await getCheckInCode(accessToken, event.id);
+    if (result.ok) {
+      setQrUrl(checkInUrl(event.id, result.data));
+    } else {
+      setError(result.message ?? "Could not load the check-in code");
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(`${event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-attendance.csv`, [
+      ['Name', 'Email', 'Checked in'],
+      ...attendance.map(record => [record.name, record.email, record.checkedInAt]),
+    ]);
+  };
+
+  const { opensAt, closesAt } = checkInWindow(event);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-lg font-semibold text-gray-900">Attendance</h2>
+        <Badge variant="secondary">{attendance.length} checked in</Badge>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={fetchAttendance}>Refresh</Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={attendance.length === 0}>
+            Export CSV
+          </Button>
+          <Button size="sm" onClick={handleShowQr} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+            Show check-in QR
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+      <AdminDataTable
+        rows={attendance}
+        columns={columns}
+        getRowId={row => row.email}
+        emptyMessage="Nobody has checked in yet."
+      />
+
+      <Dialog open={qrUrl !== null} onOpenChange={(open) => !open && setQrUrl(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Check in to {event.title}</DialogTitle>
+            <DialogDescription>
+              Scan to check in. Open from {opensAt.toLocaleString()} until {closesAt.toLocaleString()}.
+            </DialogDescription>
+          </DialogHeader>
+          {qrUrl && (
+            <div className="flex flex-col items-center gap-4">
+              <QRCodeSVG value={qrUrl} size={280} marginSize={2} />
+              <p className="break-all text-center text-xs text-gray-500">{qrUrl}</p>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import { Calendar } from "../ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { EventCard } from "../EventsSection";
+import EventRsvps from "./EventRsvps";
+import EventAttendance from "./EventAttendance";
+import { toEvent } from "../../data/events";
+import { reloadEvents } from "../../data/eventStore";
+import {
+  EVENT_TYPE_LABELS,
+  EventErrors,
+  EventFormData,
+  EventRecord,
+  EventStatus,
+  EventType,
+  validateEvent,
+} from "../../utils/eventSchema";
+import {
+  DEFAULT_TIME_ZONE,
+  formatLongDate,
+  isValidTimeZone,
+  toDayString,
+  zonedClock,
+  zonedDay,
+  zonedTimeToUtc,
+} from "../../utils/eventFormatting";
+import { cancelEvent, createEvent, deleteEvent, reinstateEvent, updateEvent } from "../../utils/api";
+
+// What the officer edits: wall clock day and times in the event's time zone
+export interface EventDraft {
+  title: string;
+  type: EventType;
+  day: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  location: string;
+  description: string;
+  link: string;
+  capacity: string;
+}
+
+export const emptyDraft = (): EventDraft => ({
+  title: "",
+  type: "other",
+  day: "",
+  startTime: "17:00",
+  endTime: "19:00",
+  timeZone: DEFAULT_TIME_ZONE,
+  location: "",
+  description: "",
+  link: "",
+  capacity: "",
+});
+
+export const draftFromEvent = (event: EventRecord): EventDraft => ({
+  title: event.title,
+  type: event.type ?? "other",
+  day: zonedDay(event.startsAt, event.timeZone),
+  startTime: zonedClock(event.startsAt, event.timeZone),
+  endTime: zonedClock(event.endsAt, event.timeZone),
+  timeZone: event.timeZone,
+  location: event.location,
+  description: event.description,
+  link: event.link ?? "",
+  capacity: event.capacity ? String(event.capacity) : "",
+});
+
+const dayToDate = (day: string): Date | undefined => {
+  if (!day) return undefined;
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+// An end time earlier than the start means the event runs past midnight
+const endsNextDay = (draft: EventDraft) =>
+  draft.startTime !== "" && draft.endTime !== "" && draft.endTime < draft.startTime;
+
+const nextDay = (day: string) => {
+  const date = dayToDate(day)!;
+  date.setDate(date.getDate() + 1);
+  return toDayString(date);
+};
+
+// Resolve the wall clock fields to instants; left blank until they can be
+const toFormData = (draft: EventDraft): EventFormData => {
+  const canResolve = draft.day && isValidTimeZone(draft.timeZone);
+  const endDay = canResolve && endsNextDay(draft) ? nextDay(draft.day) : draft.day;
+  return {
+    title: draft.title.trim(),
+    type: draft.type,
+    startsAt: canResolve && draft.startTime ? zonedTimeToUtc(draft.day, draft.startTime, draft.timeZone) : "",
+    endsAt: canResolve && draft.endTime ? zonedTimeToUtc(endDay, draft.endTime, draft.timeZone) : "",
+    timeZone: draft.timeZone.trim(),
+    location: draft.location.trim(),
+    description: draft.description.trim(),
+    link: draft.link.trim() || undefined,
+    capacity: draft.capacity.trim() ? Number(draft.capacity) : undefined,
+  };
+};
+
+// Every time zone the browser knows, for the time zone field's suggestions; older browsers lack supportedValuesOf
+const TIME_ZONES: string[] = "supportedValuesOf" in Intl
+  ? (Intl.supportedValuesOf as (key: "timeZone") => string[])('timeZone')
+  : [DEFAULT_TIME_ZONE];
+
+interface EventEditorProps {
+  accessToken: string;
+  canDelete: boolean;
+  // The stored event being edited; null for a new event
+  event: EventRecord | null;
+  initialDraft: EventDraft;
+  onDuplicate: (draft: EventDraft) => void;
+  onDone: () => void;
+}
+
+// Schema errors each draft field can clear once edited
+const DRAFT_ERROR_KEYS: Record<keyof EventDraft, (keyof EventErrors)[]> = {
+  title: ['title'],
+  type: ['type'],
+  day: ['startsAt', 'endsAt'],
+  startTime: ['startsAt', 'endsAt'],
+  endTime: ['endsAt'],
+  timeZone: ['timeZone', 'startsAt', 'endsAt'],
+  location: ['location'],
+  description: ['description'],
+  link: ['link'],
+  capacity: ['capacity'],
+};
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600" role="alert">{message}</p> : null;
+
+// Create or edit an event, with a live preview of its card on the home page
+export default function EventEditor({
+  accessToken,
+  canDelete,
+  event,
+  initialDraft,
+  onDuplicate,
+  onDone,
+}: EventEditorProps) {
+  const [draft, setDraft] = useState<EventDraft>(initialDraft);
+  const [errors, setErrors] = useState<EventErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const status: EventStatus = event?.status ?? "scheduled";
+  const selectedDate = dayToDate(draft.day);
+
+  const update = (key: keyof EventDraft, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => {
+      const next = { ...prev };
+      DRAFT_ERROR_KEYS[key].forEach(errorKey => delete next[errorKey]);
+      return next;
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateEvent(toFormData(draft));
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    setSubmitError(null);
+    const result = event
+      ? await updateEvent(accessToken, event.id, toFormData(draft))
+      : await createEvent(accessToken, toFormData(draft));
+    setIsSaving(false);
+
+    if (result.ok) {
+      reloadEvents();
+      onDone();
+    } else {
+      setErrors(result.errors);
+      setSubmitError(result.message ?? "Could not save event");
+    }
+  };
+
+  const handleStatus = async () => {
+    if (!event) return;
+    if (status === "scheduled" && !window.confirm(`Cancel ${event.title}? It will stay on the calendar marked as cancelled.`)) return;
+
+    const result = status === "scheduled"
+      ? await cancelEvent(accessToken, event.id)
+      : await reinstateEvent(accessToken, event.id);
+
+    if (result.ok) {
+      reloadEvents();
+      onDone();
+    } else {
+      setSubmitError(result.message ?? "Could not update event");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!event) return;
+    if (!window.confirm(`Delete ${event.title}? This can't be undone.`)) return;
+
+    const result = await deleteEvent(accessToken, event.id);
+    if (result.ok) {
+      reloadEvents();
+      onDone();
+    } else {
+      setSubmitError(result.message ?? "Could not delete event");
+    }
+  };
+
+  // Until the date and times resolve, preview with today's date so the card still renders
+  const formData = toFormData({ ...draft, day: draft.day || toDayString(new Date()) });
+  const previewResolves = formData.startsAt !== "" && formData.endsAt !== "";
+  const previewEvent = toEvent({
+    ...formData,
+    id: event?.id ?? 0,
+    status,
+    title: formData.title || "Event title",
+    startsAt: previewResolves ? formData.startsAt : new Date().toISOString(),
+    endsAt: previewResolves ? formData.endsAt : new Date().toISOString(),
+    timeZone: isValidTimeZone(formData.timeZone) ? formData.timeZone : DEFAULT_TIME_ZONE,
+    location: formData.location || "Location",
+    description: formData.description || "A short description of the event.",
+  });
+  const preview = { ...previewEvent, date: draft.day ? previewEvent.date : "Pick a date" };
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_auto]">
+      <form onSubmit={handleSave} className="space-y-5 max-w-xl" noValidate>
+        <div>
+          <Label htmlFor="event-title" className="mb-2 block">Title</Label>
+          <Input
+            id="event-title"
+            value={draft.title}
+            onChange={(e) => update('title', e.target.value)}
+            aria-invalid={errors.title ? 'true' : 'false'}
+          />
+          <FieldError message={errors.title} />
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Type</Label>
+          <Select value={draft.type} onValueChange={(value) => update('type', value)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(type => (
+                <SelectItem key={type} value={type}>{EVENT_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="mt-1 text-sm text-gray-500">Sets how many points attending is worth.</p>
+          <FieldError message={errors.type} />
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Date</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" className="w-full justify-start font-normal">
+                {selectedDate ? formatLongDate(selectedDate) : "Pick a date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={selectedDate}
+                onSelect={(date) => update('day', date ? toDayString(date) : "")}
+                defaultMonth={selectedDate}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <FieldError message={errors.startsAt} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="event-start" className="mb-2 block">Starts</Label>
+            <Input
+              id="event-start"
+              type="time"
+              step={900}
+              value={draft.startTime}
+              onChange={(e) => update('startTime', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="event-end" className="mb-2 block">Ends</Label>
+            <Input
+              id="event-end"
+              type="time"
+              step={900}
+              value={draft.endTime}
+              onChange={(e) => update('endTime', e.target.value)}
+            />
+            {endsNextDay(draft) && <p className="mt-1 text-sm text-gray-500">The next day</p>}
+          </div>
+        </div>
+        <FieldError message={errors.endsAt} />
+
+        <div>
+          <Label htmlFor="event-time-zone" className="mb-2 block">Time zone</Label>
+          <Input
+            id="event-time-zone"
+            list="event-time-zones"
+            value={draft.timeZone}
+            onChange={(e) => update('timeZone', e.target.value)}
+            aria-invalid={errors.timeZone ? 'true' : 'false'}
+          />
+          <datalist id="event-time-zones">
+            {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          <FieldError message={errors.timeZone} />
+        </div>
+
+        <div>
+          <Label htmlFor="event-location" className="mb-2 block">Location</Label>
+          <Input
+            id="event-location"
+            value={draft.location}
+            onChange={(e) => update('location', e.target.value)}
+            aria-invalid={errors.location ? 'true' : 'false'}
+          />
+          <FieldError message={errors.location} />
+        </div>
+
+        <div>
+          <Label htmlFor="event-description" className="mb-2 block">Description</Label>
+          <Textarea
+            id="event-description"
+            value={draft.description}
+            onChange={(e) => update('description', e.target.value)}
+            rows={5}
+            aria-invalid={errors.description ? 'true' : 'false'}
+          />
+          <FieldError message={errors.description} />
+        </div>
+
+        <div>
+          <Label htmlFor="event-link" className="mb-2 block">Link (optional)</Label>
+          <Input
+            id="event-link"
+            type="url"
+            value={draft.link}
+            onChange={(e) => update('link', e.target.value)}
+            placeholder="https://campusgroups.rit.edu/..."
+            aria-invalid={errors.link ? 'true' : 'false'}
+          />
+          <FieldError message={errors.link} />
+        </div>
+
+        <div>
+          <Label htmlFor="event-capacity" className="mb-2 block">Capacity (optional)</Label>
+          <Input
+            id="event-capacity"
+            type="number"
+            min={1}
+            value={draft.capacity}
+            onChange={(e) => update('capacity', e.target.value)}
+            placeholder="No limit"
+            className="max-w-[160px]"
+            aria-invalid={errors.capacity ? 'true' : 'false'}
+          />
+          <p className="mt-1 text-sm text-gray-500">Once full, new "going" RSVPs join a waitlist.</p>
+          <FieldError message={errors.capacity} />
+        </div>
+
+        {submitError && <p className="text-sm text-red-600" role="alert">{submitError}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="submit" disabled={isSaving} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+            {isSaving ? 'Saving…' : event ? 'Save changes' : 'Create event'}
+          </Button>
+          {event && (
+            <>
+              <Button type="button" variant="outline" onClick={() => onDuplicate(draft)}>
+                Duplicate
+              </Button>
+              <Button type="button" variant="outline" onClick={handleStatus}>
+                {status === "scheduled" ? 'Cancel event' : 'Reinstate event'}
+              </Button>
+              {canDelete && (
+                <Button type="button" variant="destructive" onClick={handleDelete}>
+                  Delete
+                </Button>
+              )}
+            </>
+          )}
+          <Button type="button" variant="ghost" onClick={onDone}>
+            Back to events
+          </Button>
+        </div>
+      </form>
+
+      <div>
+        <p className="mb-3 text-sm font-medium text-gray-600">Preview</p>
+        <div className="rounded-2xl bg-[#69d7e5] p-6">
+          <EventCard event={preview} />
+        </div>
+      </div>
+
+      {event && (
+        <div className="lg:col-span-2 space-y-8">
+          <EventRsvps accessToken={accessToken} eventId={event.id} />
+          <EventAttendance accessToken={accessToken} event={event} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Badge } from "../ui/badge";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import { getEventRsvps } from "../../utils/api";
+import { RsvpCounts, RsvpEntry, RsvpResponse } from "../../utils/rsvpSchema";
+
+interface EventRsvpsProps {
+  accessToken: string;
+  eventId: number;
+}
+
+const RESPONSE_LABELS: Record<RsvpResponse, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: 'Not going',
+};
+
+const columns: Column<RsvpEntry>[] = [
+  { key: 'email', label: 'Email', value: row => row.email },
+  {
+    key: 'response',
+    label: 'Response',
+    value: row => row.waitlistPosition ? 'Waitlisted' : RESPONSE_LABELS[row.response],
+    render: row => row.waitlistPosition
+      ? <Badge variant="outline">Waitlist #{row.waitlistPosition}</Badge>
+      : RESPONSE_LABELS[row.response],
+    filterable: true,
+  },
+  { key: 'updatedAt', label: 'Last updated', value: row => row.updatedAt, render: row => new Date(row.updatedAt).toLocaleString() },
+];
+
+// Who has responded to an event, shown under the event editor
+export default function EventRsvps({ accessToken, eventId }: EventRsvpsProps) {
+  const [rsvps, setRsvps] = useState<RsvpEntry[]>([]);
+  const [counts, setCounts] = useState<RsvpCounts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getEventRsvps(accessToken, eventId).then(result => {
+      if (result.ok) {
+        setRsvps(result.data.rsvps);
+        setCounts(result.data.counts);
+      } else {
+        setError(result.message ?? "Could not load RSVPs");
+      }
+    });
+  }, [accessToken, eventId]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-lg font-semibold text-gray-900">RSVPs</h2>
+        {counts && (
+          <>
+            <Badge variant="secondary">
+              {counts.going}{counts.capacity !== null ? ` / ${counts.capacity}` : ''} going
+            </Badge>
+            <Badge variant="secondary">{counts.maybe} maybe</Badge>
+            <Badge variant="secondary">{counts.notGoing} not going</Badge>
+            {counts.waitlisted > 0 && <Badge variant="outline">{counts.waitlisted} waitlisted</Badge>}
+          </>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+      <AdminDataTable
+        rows={rsvps}
+        columns={columns}
+        getRowId={row => row.email}
+        emptyMessage="No RSVPs yet."
+      />
+    </div>
+  );
+}
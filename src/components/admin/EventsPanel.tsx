@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import EventEditor, { EventDraft, draftFromEvent, emptyDraft } from "./EventEditor";
+import { Event } from "../../data/events";
+import { useEvents } from "../../hooks/useEvents";
+import { useRsvpCounts } from "../../hooks/useRsvpCounts";
+import { RsvpCounts } from "../../utils/rsvpSchema";
+import { EVENT_TYPE_LABELS } from "../../utils/eventSchema";
+
+interface EventsPanelProps {
+  accessToken: string;
+  isEboard: boolean;
+}
+
+// Which event the editor is open on; a null event means a new one
+type Editing = { event: Event | null; draft: EventDraft; key: number };
+
+const eventColumns = (counts: Record<number, RsvpCounts>): Column<Event>[] => [
+  { key: 'title', label: 'Title', value: row => row.title },
+  { key: 'type', label: 'Type', value: row => EVENT_TYPE_LABELS[row.type ?? 'other'], filterable: true },
+  { key: 'startsAt', label: 'Date', value: row => row.startsAt, render: row => row.date },
+  { key: 'time', label: 'Time', value: row => row.time },
+  { key: 'location', label: 'Location', value: row => row.location, filterable: true },
+  {
+    key: 'rsvps',
+    label: 'Going',
+    value: row => counts[row.id]?.going ?? 0,
+    render: row => {
+      const eventCounts = counts[row.id];
+      if (!eventCounts) return '—';
+      const going = eventCounts.capacity !== null ? `${eventCounts.going} / ${eventCounts.capacity}` : `${eventCounts.going}`;
+      return eventCounts.waitlisted > 0 ? `${going} (+${eventCounts.waitlisted} waitlisted)` : going;
+    },
+  },
+  {
+    key: 'status',
+    label: 'Status',
+    value: row => row.status ?? 'scheduled',
+    render: row => row.status === 'cancelled'
+      ? <Badge variant="destructive">Cancelled</Badge>
+      : <Badge variant="secondary">Scheduled</Badge>,
+    filterable: true,
+  },
+];
+
+// Officer tool for managing the events shown on the home page and calendar
+export default function EventsPanel({ accessToken, isEboard }: EventsPanelProps) {
+  const { events, loading, error, reload } = useEvents();
+  const { counts, refresh: refreshCounts } = useRsvpCounts();
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  // The key remounts the editor so a duplicate starts from a fresh form
+  const openEditor = (event: Event | null, draft: EventDraft) =>
+    setEditing({ event, draft, key: Date.now() });
+
+  if (editing) {
+    return (
+      <EventEditor
+        key={editing.key}
+        accessToken={accessToken}
+        canDelete={isEboard}
+        event={editing.event}
+        initialDraft={editing.draft}
+        onDuplicate={draft => openEditor(null, { ...draft, title: `${draft.title} (copy)` })}
+        onDone={() => {
+          setEditing(null);
+          refreshCounts();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button onClick={() => openEditor(null, emptyDraft())} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+          New event
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => {
+            reload();
+            refreshCounts();
+          }}
+          disabled={loading}
+        >
+          {loading ? 'Loading…' : 'Refresh'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <AdminDataTable
+        rows={events}
+        columns={eventColumns(counts)}
+        getRowId={row => String(row.id)}
+        onRowClick={event => openEditor(event, draftFromEvent(event))}
+        emptyMessage={loading ? "Loading events…" : "No events yet."}
+      />
+    </div>
+  );
+}
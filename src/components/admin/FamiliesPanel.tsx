@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Checkbox } from "../ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import { familyUrl } from "../FamilyPage";
+import {
+  MatchRecord,
+  MenteeRecord,
+  MentorRecord,
+  createFamily,
+  deleteFamily,
+  getAdminFamilies,
+  updateFamily,
+} from "../../utils/api";
+import { FamilyErrors, FamilyFormData, FamilyRecord, validateFamily } from "../../utils/familySchema";
+
+interface FamiliesPanelProps {
+  accessToken: string;
+  isEboard: boolean;
+  matches: MatchRecord[];
+  mentorsById: Map<string, MentorRecord>;
+  menteesById: Map<string, MenteeRecord>;
+}
+
+interface FamilyEditorProps extends Omit<FamiliesPanelProps, 'isEboard'> {
+  canDelete: boolean;
+  family: FamilyRecord | null;
+  // Pairs already in some other family
+  takenMatchIds: Set<string>;
+  onDone: () => void;
+}
+
+const emptyFamily = (): FamilyFormData => ({ name: "", leadMentorId: "", matchIds: [] });
+
+function FamilyEditor({
+  accessToken,
+  canDelete,
+  family,
+  matches,
+  mentorsById,
+  menteesById,
+  takenMatchIds,
+  onDone,
+}: FamilyEditorProps) {
+  // Pairs dropped by a later matching run are left out so the family can still be saved
+  const [formData, setFormData] = useState<FamilyFormData>(family
+    ? {
+      name: family.name,
+      leadMentorId: family.leadMentorId,
+      matchIds: family.matchIds.filter(id => matches.some(match => match.id === id)),
+    }
+    : emptyFamily());
+  const [errors, setErrors] = useState<FamilyErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const mentorName = (id: string) => mentorsById.get(id)?.name ?? id;
+  const menteeName = (id: string) => menteesById.get(id)?.name ?? id;
+
+  const available = matches.filter(match => !takenMatchIds.has(match.id));
+  const selected = matches.filter(match => formData.matchIds.includes(match.id));
+  const leadOptions = [...new Set(selected.map(match => match.mentorId))];
+
+  const togglePair = (matchId: string, checked: boolean) => {
+    const matchIds = checked
+      ? [...formData.matchIds, matchId]
+      : formData.matchIds.filter(id => id !== matchId);
+    const mentorIds = matches.filter(match => matchIds.includes(match.id)).map(match => match.mentorId);
+
+    setFormData({
+      ...formData,
+      matchIds,
+      // Keep the lead only while they still have a pair in the family
+      leadMentorId: mentorIds.includes(formData.leadMentorId) ? formData.leadMentorId : mentorIds[0] ?? "",
+    });
+    setErrors(prev => ({ ...prev, matchIds: undefined, leadMentorId: undefined }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateFamily(formData);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = family
+      ? await updateFamily(accessToken, family.id, formData)
+      : await createFamily(accessToken, formData);
+    setIsSaving(false);
+
+    if (result.ok) {
+      onDone();
+    } else {
+      setErrors(result.errors);
+      setError(result.message ?? "Could not save family");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!family || !window.confirm(`Delete the ${family.name} family? The pairs stay matched.`)) return;
+
+    const result = await deleteFamily(accessToken, family.id);
+    if (result.ok) {
+      onDone();
+    } else {
+      setError(result.message ?? "Could not delete family");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6 max-w-xl">
+      <div>
+        <Label htmlFor="family-name" className="mb-2 block">Family name</Label>
+        <Input
+          id="family-name"
+          value={formData.name}
+          onChange={(e) => {
+            setFormData({ ...formData, name: e.target.value });
+            setErrors(prev => ({ ...prev, name: undefined }));
+          }}
+          aria-invalid={errors.name ? 'true' : 'false'}
+        />
+        {errors.name && <p className="mt-1 text-sm text-red-600" role="alert">{errors.name}</p>}
+      </div>
+
+      <div>
+        <Label className="mb-2 block">Pairs</Label>
+        {available.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every matched pair is already in a family.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto rounded-md border p-3">
+            {available.map(match => (
+              <label key={match.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={formData.matchIds.includes(match.id)}
+                  onCheckedChange={(checked) => togglePair(match.id, checked === true)}
+                />
+                {mentorName(match.mentorId)} &amp; {menteeName(match.menteeId)}
+              </label>
+            ))}
+          </div>
+        )}
+        {errors.matchIds && <p className="mt-1 text-sm text-red-600" role="alert">{errors.matchIds}</p>}
+      </div>
+
+      <div>
+        <Label className="mb-2 block">Lead mentor</Label>
+        <Select
+          value={formData.leadMentorId}
+          onValueChange={(value) => {
+            setFormData({ ...formData, leadMentorId: value });
+            setErrors(prev => ({ ...prev, leadMentorId: undefined }));
+          }}
+          disabled={leadOptions.length === 0}
+        >
+          <SelectTrigger className="w-[240px]">
+            <SelectValue placeholder="Pick pairs first" />
+          </SelectTrigger>
+          <SelectContent>
+            {leadOptions.map(id => (
+              <SelectItem key={id} value={id}>{mentorName(id)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.leadMentorId && <p className="mt-1 text-sm text-red-600" role="alert">{errors.leadMentorId}</p>}
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving…' : 'Save family'}
+        </Button>
+        {family && (
+          <Button type="button" variant="outline" asChild>
+            <a href={familyUrl(family.id)} target="_blank" rel="noreferrer">Open family page</a>
+          </Button>
+        )}
+        {family && canDelete && (
+          <Button type="button" variant="destructive" onClick={handleDelete}>
+            Delete
+          </Button>
+        )}
+        <Button type="button" variant="ghost" onClick={onDone}>
+          Back
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// Officer tool for grouping matched pairs into families
+export default function FamiliesPanel({ accessToken, isEboard, matches, mentorsById, menteesById }: FamiliesPanelProps) {
+  const [families, setFamilies] = useState<FamilyRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // undefined: list view, null: new family
+  const [editing, setEditing] = useState<FamilyRecord | null | undefined>(undefined);
+
+  const fetchFamilies = useCallback(async () => {
+    const result = await getAdminFamilies(accessToken);
+    if (result.ok) {
+      setFamilies(result.data);
+    } else {
+      setError(result.message ?? "Could not load families");
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchFamilies();
+  }, [fetchFamilies]);
+
+  if (editing !== undefined) {
+    const takenMatchIds = new Set(
+      families.filter(family => family.id !== editing?.id).flatMap(family => family.matchIds)
+    );
+    return (
+      <FamilyEditor
+        accessToken={accessToken}
+        canDelete={isEboard}
+        family={editing}
+        matches={matches}
+        mentorsById={mentorsById}
+        menteesById={menteesById}
+        takenMatchIds={takenMatchIds}
+        onDone={() => {
+          setEditing(undefined);
+          fetchFamilies();
+        }}
+      />
+    );
+  }
+
+  const assigned = new Set(families.flatMap(family => family.matchIds));
+  const unassigned = matches.filter(match => !assigned.has(match.id)).length;
+
+  const columns: Column<FamilyRecord>[] = [
+    { key: 'name', label: 'Family', value: row => row.name },
+    { key: 'lead', label: 'Lead mentor', value: row => mentorsById.get(row.leadMentorId)?.name ?? row.leadMentorId },
+    { key: 'pairs', label: 'Pairs', value: row => row.matchIds.length },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={() => setEditing(null)} className="bg-[#8bd4e0] hover:bg-[#7bc7d3] text-black">
+          New family
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {unassigned === 0 ? 'Every matched pair is in a family.' : `${unassigned} matched ${unassigned === 1 ? 'pair has' : 'pairs have'} no family yet.`}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <AdminDataTable
+        rows={families}
+        columns={columns}
+        getRowId={row => row.id}
+        onRowClick={family => setEditing(family)}
+        emptyMessage="No families yet. Group matched pairs once matching has run."
+      />
+    </div>
+  );
+}
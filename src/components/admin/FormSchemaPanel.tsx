@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import { Checkbox } from "../ui/checkbox";
+import { Badge } from "../ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { getFormSchema, saveFormSchema } from "../../utils/api";
+import {
+  DEFAULT_FORM_FIELDS,
+  FIELD_TYPE_LABELS,
+  FieldType,
+  FormField,
+  FormSchema,
+  FormSchemaErrors,
+  SignupFormKind,
+  ValidatorRule,
+  fieldIdFromLabel,
+  validateFormSchema,
+} from "../../utils/formSchema";
+
+interface FormSchemaPanelProps {
+  accessToken: string;
+  semester: string; // Name of the cohort being edited
+}
+
+// Questions added since the last save; only these can still change their answer key
+type EditableField = FormField & { isNew?: boolean };
+
+const hasOptions = (type: FieldType) => type === 'select' || type === 'multi-select';
+
+const limitOf = (field: FormField, rule: ValidatorRule) =>
+  field.validators?.find(validator => validator.rule === rule)?.value;
+
+// Officer editor for each semester's mentor and mentee sign up questions
+export default function FormSchemaPanel({ accessToken, semester }: FormSchemaPanelProps) {
+  const [kind, setKind] = useState<SignupFormKind>('mentor');
+  const [schema, setSchema] = useState<FormSchema | null>(null);
+  const [errors, setErrors] = useState<FormSchemaErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setSchema(null);
+    setErrors({});
+    setError(null);
+    setSaved(false);
+
+    const result = await getFormSchema(kind, semester);
+    if (result.ok) {
+      setSchema(result.data);
+    } else {
+      setError(result.message ?? "Could not load the sign up questions");
+    }
+  }, [kind, semester]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const setFields = (fields: EditableField[]) => {
+    if (!schema) return;
+    setSchema({ ...schema, fields });
+    setErrors({});
+    setSaved(false);
+  };
+
+  const updateField = (index: number, patch: Partial<EditableField>) => {
+    if (!schema) return;
+    setFields(schema.fields.map((field, i) => i === index ? { ...field, ...patch } : field));
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    const field: EditableField = schema!.fields[index];
+    // New questions take their answer key from the wording until someone edits the key
+    const followsLabel = field.isNew && (!field.id || field.id === fieldIdFromLabel(field.label));
+    updateField(index, followsLabel ? { label, id: fieldIdFromLabel(label) } : { label });
+  };
+
+  const updateLimit = (index: number, rule: ValidatorRule, value: string) => {
+    const field = schema!.fields[index];
+    const others = (field.validators ?? []).filter(validator => validator.rule !== rule);
+    updateField(index, {
+      validators: value === '' ? others : [...others, { rule, value: Number(value) }],
+    });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const fields = [...schema!.fields];
+    const [field] = fields.splice(index, 1);
+    fields.splice(index + offset, 0, field);
+    setFields(fields);
+  };
+
+  const addField = () => {
+    setFields([...schema!.fields, { id: '', type: 'text', label: '', required: false, isNew: true }]);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schema) return;
+
+    // Blank lines in an options list are just spacing
+    const cleaned = {
+      ...schema,
+      fields: schema.fields.map(({ isNew: _, ...field }: EditableField) => field.options
+        ? { ...field, options: field.options.map(option => option.trim()).filter(Boolean) }
+        : field),
+    };
+    const validationErrors = validateFormSchema(kind, cleaned);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = await saveFormSchema(accessToken, kind, cleaned);
+    setIsSaving(false);
+
+    if (result.ok) {
+      setSchema(result.data);
+      setSaved(true);
+    } else {
+      setErrors(result.errors);
+      setError(result.message ?? "Could not save the sign up questions");
+    }
+  };
+
+  const renderField = (field: EditableField, index: number) => {
+    const prefix = `question-${index}`;
+    const fieldError = errors.byField?.[field.id];
+
+    return (
+      <div key={index} className="rounded-md border p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{index + 1}. {field.label || 'New question'}</span>
+          {field.locked && <Badge variant="secondary">Used by matching</Badge>}
+          <div className="ml-auto flex gap-1">
+            <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => moveField(index, -1)}>
+              Up
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={index === schema!.fields.length - 1}
+              onClick={() => moveField(index, 1)}
+            >
+              Down
+            </Button>
+            {!field.locked && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setFields(schema!.fields.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="md:col-span-2">
+            <Label htmlFor={`${prefix}-label`} className="mb-2 block">Question</Label>
+            <Input id={`${prefix}-label`} value={field.label} onChange={(e) => updateLabel(index, e.target.value)} />
+          </div>
+
+          <div>
+            <Label htmlFor={`${prefix}-id`} className="mb-2 block">Answer key</Label>
+            <Input
+              id={`${prefix}-id`}
+              value={field.id}
+              onChange={(e) => updateField(index, { id: e.target.value.trim() })}
+              // Renaming a saved key would orphan the answers stored under it
+              disabled={!field.isNew}
+            />
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Type</Label>
+            <Select
+              value={field.type}
+              onValueChange={(value) => updateField(index, {
+                type: value as FieldType,
+                options: hasOptions(value as FieldType) ? field.options ?? [] : undefined,
+              })}
+              disabled={field.locked}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FIELD_TYPE_LABELS) as FieldType[]).map(type => (
+                  <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(field.type === 'text' || field.type === 'textarea') && (
+            <div className="md:col-span-2">
+              <Label htmlFor={`${prefix}-placeholder`} className="mb-2 block">Placeholder</Label>
+              <Input
+                id={`${prefix}-placeholder`}
+                value={field.placeholder ?? ''}
+                onChange={(e) => updateField(index, { placeholder: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div className="md:col-span-2">
+            <Label htmlFor={`${prefix}-help`} className="mb-2 block">Help text</Label>
+            <Input
+              id={`${prefix}-help`}
+              value={field.helpText ?? ''}
+              onChange={(e) => updateField(index, { helpText: e.target.value })}
+            />
+          </div>
+
+          {hasOptions(field.type) && (
+            <div className="md:col-span-2">
+              <Label htmlFor={`${prefix}-options`} className="mb-2 block">Options, one per line</Label>
+              <Textarea
+                id={`${prefix}-options`}
+                value={(field.options ?? []).join('\n')}
+                onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                rows={4}
+                disabled={field.locked}
+              />
+            </div>
+          )}
+
+          {(field.type === 'text' || field.type === 'textarea') && !field.locked && (
+            <>
+              <div>
+                <Label htmlFor={`${prefix}-min`} className="mb-2 block">Minimum characters</Label>
+                <Input
+                  id={`${prefix}-min`}
+                  type="number"
+                  min={1}
+                  value={limitOf(field, 'minLength') ?? ''}
+                  onChange={(e) => updateLimit(index, 'minLength', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${prefix}-max`} className="mb-2 block">Maximum characters</Label>
+                <Input
+                  id={`${prefix}-max`}
+                  type="number"
+                  min={1}
+                  value={limitOf(field, 'maxLength') ?? ''}
+                  onChange={(e) => updateLimit(index, 'maxLength', e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          {kind === 'mentor' && (
+            <div>
+              <Label htmlFor={`${prefix}-section`} className="mb-2 block">Form step</Label>
+              <Input
+                id={`${prefix}-section`}
+                value={field.section ?? ''}
+                onChange={(e) => updateField(index, { section: e.target.value })}
+                placeholder="e.g., About you"
+              />
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm self-end pb-2">
+            <Checkbox
+              checked={field.required}
+              onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+              disabled={field.locked}
+            />
+            Required
+          </label>
+        </div>
+
+        {fieldError && <p className="text-sm text-red-600" role="alert">{fieldError}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6 max-w-3xl">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={kind} onValueChange={(value) => setKind(value as SignupFormKind)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mentor">Mentor form</SelectItem>
+            <SelectItem value="mentee">Mentee form</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">{semester}</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Changes apply to new sign ups and to edits made from "My sign-up". Questions used by
+        matching can be reworded but not removed.
+      </p>
+
+      {!schema ? (
+        error
+          ? <p className="text-sm text-red-600" role="alert">{error}</p>
+          : <p className="text-sm text-muted-foreground">Loading questions...</p>
+      ) : (
+        <>
+          <div className="space-y-4">
+            {schema.fields.map(renderField)}
+          </div>
+
+          {errors.fields && <p className="text-sm text-red-600" role="alert">{errors.fields}</p>}
+          {errors.semester && <p className="text-sm text-red-600" role="alert">{errors.semester}</p>}
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+          {saved && <p className="text-sm text-muted-foreground">Saved. The {semester} {kind} form now asks these questions.</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={addField}>
+              Add question
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setFields(DEFAULT_FORM_FIELDS[kind])}>
+              Reset to default questions
+            </Button>
+            <Button type="submit" disabled={isSaving} className="ml-auto">
+              {isSaving ? 'Saving...' : 'Save questions'}
+            </Button>
+          </div>
+        </>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import AdminDataTable, { Column } from "./AdminDataTable";
+import {
+  Officer,
+  OfficerRole,
+  getOfficers,
+  removeOfficer,
+  saveOfficer,
+} from "../../utils/api";
+
+interface OfficersPanelProps {
+  accessToken: string;
+  currentEmail: string;
+}
+
+const ROLE_LABELS: Record<OfficerRole, string> = {
+  officer: 'Officer',
+  eboard: 'E-board',
+};
+
+// E-board tool for managing who can sign in to the dashboard
+export default function OfficersPanel({ accessToken, currentEmail }: OfficersPanelProps) {
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OfficerRole>('officer');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchOfficers = useCallback(async () => {
+    const result = await getOfficers(accessToken);
+    if (result.ok) {
+      setOfficers(result.data);
+    } else {
+      setError(result.message ?? "Could not load officers");
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchOfficers();
+  }, [fetchOfficers]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+    const result = await saveOfficer(accessToken, email.trim().toLowerCase(), role);
+    setIsSaving(false);
+
+    if (result.ok) {
+      setEmail("");
+      fetchOfficers();
+    } else {
+      setError(result.errors.email ?? result.errors.role ?? result.message ?? "Could not save officer");
+    }
+  };
+
+  const handleRemove = async (officer: Officer) => {
+    if (!window.confirm(`Remove ${officer.email} from the officer list?`)) return;
+
+    const result = await removeOfficer(accessToken, officer.email);
+    if (result.ok) {
+      fetchOfficers();
+    } else {
+      setError(result.message ?? "Could not remove officer");
+    }
+  };
+
+  const columns: Column<Officer>[] = [
+    { key: 'email', label: 'Email', value: row => row.email },
+    { key: 'role', label: 'Role', value: row => ROLE_LABELS[row.role], filterable: true },
+    {
+      key: 'actions',
+      label: '',
+      value: () => '',
+      render: row => row.email === currentEmail ? null : (
+        <Button variant="ghost" size="sm" onClick={() => handleRemove(row)}>
+          Remove
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-3 items-center">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="abc1234@rit.edu"
+          className="max-w-xs"
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as OfficerRole)}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="officer">{ROLE_LABELS.officer}</SelectItem>
+            <SelectItem value="eboard">{ROLE_LABELS.eboard}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={isSaving || !email.trim()}>
+          Add or update
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <AdminDataTable
+        rows={officers}
+        columns={columns}
+        getRowId={row => row.email}
+        emptyMessage="No officers on the allow-list yet."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { getPointsConfig, savePointsConfig } from "../../utils/api";
+import { EVENT_TYPE_LABELS, EventType } from "../../utils/eventSchema";
+import { PointsConfig, PointsConfigErrors, validatePointsConfig } from "../../utils/pointsSchema";
+
+interface PointsPanelProps {
+  accessToken: string;
+  isEboard: boolean;
+}
+
+// Points table behind the public leaderboard; officers can view it, e-board edits it
+export default function PointsPanel({ accessToken, isEboard }: PointsPanelProps) {
+  const [config, setConfig] = useState<PointsConfig | null>(null);
+  const [errors, setErrors] = useState<PointsConfigErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchConfig = useCallback(async () => {
+    const result = await getPointsConfig(accessToken);
+    if (result.ok) {
+      setConfig(result.data);
+    } else {
+      setError(result.message ?? "Could not load the points table");
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  if (!config) {
+    return error
+      ? <p className="text-sm text-red-600" role="alert">{error}</p>
+      : <p className="text-sm text-muted-foreground">Loading points table...</p>;
+  }
+
+  const update = (next: PointsConfig) => {
+    setConfig(next);
+    setErrors({});
+    setSaved(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validatePointsConfig(config);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = await savePointsConfig(accessToken, config);
+    setIsSaving(false);
+
+    if (result.ok) {
+      setConfig(result.data);
+      setSaved(true);
+    } else {
+      setErrors(result.errors);
+      setError(result.message ?? "Could not save the points table");
+    }
+  };
+
+  const pointsInput = (id: string, value: number, onChange: (value: number) => void) => (
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      step={1}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      disabled={!isEboard}
+      className="w-24"
+    />
+  );
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6 max-w-md">
+      <p className="text-sm text-muted-foreground">
+        Members earn these points for each event they check in to. Cancelled events don't count.
+        {!isEboard && ' Only e-board members can change them.'}
+      </p>
+
+      <div className="space-y-3">
+        {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(type => (
+          <div key={type} className="flex items-center justify-between gap-4">
+            <Label htmlFor={`points-${type}`}>{EVENT_TYPE_LABELS[type]}</Label>
+            {pointsInput(`points-${type}`, config.perEventType[type], value =>
+              update({ ...config, perEventType: { ...config.perEventType, [type]: value } })
+            )}
+          </div>
+        ))}
+        {errors.perEventType && <p className="text-sm text-red-600" role="alert">{errors.perEventType}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="points-bonus">Mentor + mentee bonus</Label>
+          {pointsInput('points-bonus', config.mentorMenteeBonus, value =>
+            update({ ...config, mentorMenteeBonus: value })
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Added to a mentor's total for each event where one of their matched mentees also checked in.
+        </p>
+        {errors.mentorMenteeBonus && <p className="text-sm text-red-600" role="alert">{errors.mentorMenteeBonus}</p>}
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+      {saved && <p className="text-sm text-muted-foreground">Saved. The leaderboard now uses the new table.</p>}
+
+      {isEboard && (
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save points'}
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,52 @@
+import { ReactNode } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+
+export interface DetailField {
+  label: string;
+  value: ReactNode;
+}
+
+interface RecordDetailsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  fields: DetailField[];
+  children?: ReactNode;
+}
+
+// Side drawer listing every field of a single admin table row
+export default function RecordDetailsSheet({
+  open,
+  onOpenChange,
+  title,
+  description,
+  fields,
+  children,
+}: RecordDetailsSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          {description && <SheetDescription>{description}</SheetDescription>}
+        </SheetHeader>
+        <dl className="space-y-4 px-4 pb-6">
+          {fields.map(field => (
+            <div key={field.label}>
+              <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+              <dd className="mt-1 text-gray-900 whitespace-pre-wrap">{field.value || '-'}</dd>
+            </div>
+          ))}
+        </dl>
+        {children && <div className="px-4 pb-6">{children}</div>}
+      </SheetContent>
+    </Sheet>
+  );
+}
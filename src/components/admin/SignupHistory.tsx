@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { SignupChange, SignupKind, getSignupHistory } from "../../utils/api";
+
+interface SignupHistoryProps {
+  accessToken: string;
+  kind: SignupKind;
+  id: string;
+}
+
+// Bookkeeping fields that change on every edit
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const changedFields = (change: SignupChange) =>
+  Object.keys(change.after ?? {}).filter(key =>
+    !IGNORED_FIELDS.has(key) &&
+    // Multi-select answers are arrays, so compare by value
+    JSON.stringify(change.before[key]) !== JSON.stringify(change.after?.[key])
+  );
+
+// Edits and withdrawals the student made from "My sign-up"
+export default function SignupHistory({ accessToken, kind, id }: SignupHistoryProps) {
+  const [history, setHistory] = useState<SignupChange[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHistory(null);
+    setError(null);
+    getSignupHistory(accessToken, kind, id).then(result => {
+      if (result.ok) {
+        setHistory(result.data);
+      } else {
+        setError(result.message ?? "Could not load the sign up history");
+      }
+    });
+  }, [accessToken, kind, id]);
+
+  if (error) {
+    return <p className="text-sm text-red-600" role="alert">{error}</p>;
+  }
+  if (!history) {
+    return <p className="text-sm text-muted-foreground">Loading history…</p>;
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-500 mb-2">Changes by the student</h3>
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-900">None</p>
+      ) : (
+        <ul className="space-y-1 text-sm text-gray-900">
+          {history.map(change => (
+            <li key={change.changedAt}>
+              {formatTimestamp(change.changedAt)}:{' '}
+              {change.action === 'withdrawn'
+                ? 'withdrew the sign up'
+                : `edited ${changedFields(change).join(', ') || 'nothing'}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
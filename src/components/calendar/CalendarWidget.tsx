@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Calendar } from "../ui/calendar";
-import { getEventDates } from "../../data/events";
+import { useEvents } from "../../hooks/useEvents";
 
 interface CalendarWidgetProps {
   selectedDate: Date | undefined;
@@ -25,8 +25,9 @@ export default function CalendarWidget({
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  // Get event dates from the events data
-  const eventDates = getEventDates();
+  // Get event dates from the event store
+  const { events, loading, error, reload } = useEvents();
+  const eventDates = events.map(event => event.dateObject);
 
   // Custom onSelect handler to prevent automatic selection behavior
   const handleDateSelect = (date: Date | undefined) => {
@@ -93,6 +94,17 @@ export default function CalendarWidget({
           day_disabled: "text-gray-300 opacity-50",
         }}
       />
+      {loading && (
+        <p className="mt-2 text-center text-sm text-gray-500">Loading events...</p>
+      )}
+      {error && (
+        <p className="mt-2 text-center text-sm text-red-600" role="alert">
+          {error}.{' '}
+          <button type="button" onClick={reload} className="underline hover:text-red-800">
+            Try again
+          </button>
+        </p>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
 import svgPaths from "../../imports/svg-onqcmwzw98";
-import { getEventsForDate } from "../../data/events";
-import { getAllEventsForDate, formatDate } from "../../utils/calendarHelpers";
+import { useEvents } from "../../hooks/useEvents";
+import { downloadEventCalendar, getAllEventsForDate, placeholderEvent } from "../../utils/calendarHelpers";
+import { formatDate } from "../../utils/eventFormatting";
 
 interface EventDetailsCardProps {
   selectedDate: Date | undefined;
@@ -14,6 +15,7 @@ export default function EventDetailsCard({
 }: EventDetailsCardProps) {
   const [currentEventIndex, setCurrentEventIndex] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
+  const { events: loadedEvents, loading, error } = useEvents();
 
   // Check if mobile
   useEffect(() => {
@@ -28,7 +30,11 @@ export default function EventDetailsCard({
 
   if (!selectedDate) return null;
 
-  const events = getAllEventsForDate(selectedDate);
+  const events = loading
+    ? [placeholderEvent("Loading events...", "Fetching the latest schedule.")]
+    : error
+      ? [placeholderEvent("Couldn't load events", error)]
+      : getAllEventsForDate(loadedEvents, selectedDate);
   
   // Ensure we have valid events and currentEventIndex is within bounds
   if (!events || events.length === 0) {
@@ -202,10 +208,17 @@ export default function EventDetailsCard({
           </svg>
         </button>
 
-        {/* Calendar icon in top right */}
-        <div className={`absolute bg-[rgba(255,255,255,0.5)] right-[18px] rounded-[15px] top-[18px] flex items-center justify-center border border-white ${
-          isMobile ? 'size-10' : 'size-9'
-        }`}>
+        {/* Calendar icon in top right; downloads the event as an .ics file */}
+        <button
+          type="button"
+          onClick={() => currentEvent.event && downloadEventCalendar(currentEvent.event)}
+          disabled={!currentEvent.event}
+          className={`absolute bg-[rgba(255,255,255,0.5)] right-[18px] rounded-[15px] top-[18px] flex items-center justify-center border border-white transition-all duration-200 enabled:hover:bg-[rgba(255,255,255,0.8)] enabled:hover:scale-110 enabled:cursor-pointer ${
+            isMobile ? 'size-10' : 'size-9'
+          }`}
+          aria-label={currentEvent.event ? `Add ${currentEvent.event.title} to calendar` : undefined}
+          title={currentEvent.event ? "Add to calendar" : undefined}
+        >
           <div className={`relative ${isMobile ? 'h-7 w-6' : 'h-6 w-[21px]'}`}>
             <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 21 24">
               <g id="calendar-days">
@@ -213,7 +226,7 @@ export default function EventDetailsCard({
               </g>
             </svg>
           </div>
-        </div>
+        </button>
 
         {/* Event content */}
         <div className={`absolute content-stretch flex flex-col items-start justify-start left-[18px] w-[calc(100%-80px)] gap-1 ${
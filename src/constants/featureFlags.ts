@@ -0,0 +1,6 @@
+// Switches for features that may need to be turned off without a code change.
+// Set the matching VITE_ variable to "false" at build time to disable one.
+
+// The native mentor sign up form; when off (or when the edge server is down) the
+// Google Form is embedded instead
+export const NATIVE_SIGNUP_FORM = import.meta.env.VITE_NATIVE_SIGNUP_FORM !== "false";
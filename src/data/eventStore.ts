@@ -0,0 +1,42 @@
+// Async access to the events managed on the edge server
+// Every caller shares one cached fetch; reloadEvents() refreshes it for all subscribers.
+import { getEvents } from "../utils/api";
+import { Event, sortEvents, toEvent } from "./events";
+
+type Listener = (events: Promise<Event[]>) => void;
+
+let cache: Promise<Event[]> | null = null;
+const listeners = new Set<Listener>();
+
+const fetchEvents = async (): Promise<Event[]> => {
+  const result = await getEvents();
+  if (!result.ok) {
+    throw new Error(result.message ?? "Could not load events");
+  }
+  return sortEvents(result.data.map(toEvent));
+};
+
+// All events sorted by date (earliest first), fetched once per page load
+export const loadEvents = (): Promise<Event[]> => {
+  if (!cache) {
+    cache = fetchEvents();
+    // Drop a failed fetch so the next caller retries
+    cache.catch(() => { cache = null; });
+  }
+  return cache;
+};
+
+// Refetch and notify every subscriber, e.g. after an officer edits an event
+export const reloadEvents = (): Promise<Event[]> => {
+  cache = null;
+  const next = loadEvents();
+  listeners.forEach(listener => listener(next));
+  return next;
+};
+
+export const subscribeToEvents = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getSortedEvents = (): Promise<Event[]> => loadEvents();
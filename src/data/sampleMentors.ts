@@ -0,0 +1,50 @@
+// Sample mentor sign ups
+// The edge server's seed (supabase/functions/server/seed.tsx) loads them as fixtures for local
+// development.
+
+export interface SampleMentor {
+  hoursAgo: number; // When they signed up, relative to now
+  name: string;
+  email: string;
+  major: string;
+  year: string;
+  mentorGoals: string;
+  hobbies: string;
+  availability: string[]; // Weekly slots, see utils/availability.ts
+}
+
+export const sampleMentors: SampleMentor[] = [
+  {
+    hoursAgo: 24,
+    name: "Sarah Chen",
+    email: "sc1234@rit.edu",
+    major: "Computer Science",
+    year: "Fourth Year",
+    mentorGoals: "Help international students adapt to campus life and connect with cultural communities",
+    hobbies: "Traditional dance, Cooking, Photography",
+    availability: ["mon-12", "mon-13", "wed-12", "wed-13", "fri-15"],
+  },
+  {
+    hoursAgo: 6,
+    name: "Michael Patel",
+    email: "mp5678@rit.edu",
+    major: "Business Administration",
+    year: "Third Year",
+    mentorGoals: "Share career networking tips and support first-gen college students",
+    hobbies: "Cricket, Music production, Travel",
+    availability: ["tue-17", "tue-18", "thu-17", "thu-18", "sat-11"],
+  },
+  {
+    hoursAgo: 2,
+    name: "Jessica Kim",
+    email: "jk9012@rit.edu",
+    major: "Engineering",
+    year: "Graduate Student",
+    mentorGoals: "Guide undergrads in research opportunities and cultural identity exploration",
+    hobbies: "Martial arts, Gaming, Language exchange",
+    availability: ["mon-16", "wed-16", "fri-10", "fri-11", "sun-14"],
+  },
+];
+
+export const signedUpAt = (mentor: SampleMentor, now = Date.now()) =>
+  new Date(now - mentor.hoursAgo * 60 * 60 * 1000);
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Event } from '../data/events';
+import { loadEvents, reloadEvents, subscribeToEvents } from '../data/eventStore';
+
+// Sorted events from the event store, with loading and error state
+export const useEvents = () => {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    const track = (pending: Promise<Event[]>) => {
+      setLoading(true);
+      setError(null);
+      pending
+        .then(loaded => {
+          if (active) setEvents(loaded);
+        })
+        .catch(err => {
+          if (active) setError(err instanceof Error ? err.message : "Could not load events");
+        })
+        .finally(() => {
+          if (active) setLoading(false);
+        });
+    };
+
+    track(loadEvents());
+    const unsubscribe = subscribeToEvents(track);
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const reload = useCallback(() => { reloadEvents(); }, []);
+
+  return { events, loading, error, reload };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { getFormSchema } from "../utils/api";
+import { DEFAULT_FORM_FIELDS, FormField, SignupFormKind } from "../utils/formSchema";
+
+// This semester's questions for a sign up form, or another semester's when given; null
+// while loading. Falls back to the default questions when the server can't be reached.
+export const useFormSchema = (kind: SignupFormKind, semester?: string): FormField[] | null => {
+  const [fields, setFields] = useState<FormField[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFields(null);
+    getFormSchema(kind, semester).then(result => {
+      if (!cancelled) setFields(result.ok ? result.data.fields : DEFAULT_FORM_FIELDS[kind]);
+    });
+    return () => { cancelled = true; };
+  }, [kind, semester]);
+
+  return fields;
+};
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getRsvpCounts } from '../utils/api';
+import { RsvpCounts } from '../utils/rsvpSchema';
+
+// How often the cards refresh their counts while the page is open
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// RSVP counts per event id, kept fresh by polling while the tab is visible
+export const useRsvpCounts = () => {
+  const [counts, setCounts] = useState<Record<number, RsvpCounts>>({});
+
+  const refresh = useCallback(async () => {
+    const result = await getRsvpCounts();
+    if (result.ok) {
+      setCounts(result.data);
+    }
+  }, []);
+
+  // Apply counts returned by an RSVP without waiting for the next poll
+  const update = useCallback((eventId: number, eventCounts: RsvpCounts) => {
+    setCounts(prev => ({ ...prev, [eventId]: eventCounts }));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = window.setInterval(() => {
+      if (document.visibilityState === 'visible') refresh();
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [refresh]);
+
+  return { counts, refresh, update };
+};
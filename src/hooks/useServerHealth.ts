@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { checkHealth } from "../utils/api";
+
+export type ServerHealth = 'checking' | 'up' | 'down';
+
+// Probe the edge server once on mount; pass enabled=false to skip the request
+export const useServerHealth = (enabled = true): ServerHealth => {
+  const [health, setHealth] = useState<ServerHealth>(enabled ? 'checking' : 'down');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    checkHealth().then(result => {
+      if (!cancelled) setHealth(result.ok ? 'up' : 'down');
+    });
+    return () => { cancelled = true; };
+  }, [enabled]);
+
+  return health;
+};
@@ -0,0 +1,17 @@
+import { useState } from "react";
+import { FILL_TIME_FIELD, HONEYPOT_FIELD, SpamGuardFields } from "../utils/apiContract";
+
+// The honeypot's value and when the form was started, sent with a sign up so the server can
+// turn away bots (see apiContract.ts). Pass a restored draft's startedAt to count from when it
+// was begun rather than from when the page was opened again.
+export const useSpamGuard = (draftStartedAt?: number) => {
+  const [startedAt] = useState(() => draftStartedAt ?? Date.now());
+  const [honeypot, setHoneypot] = useState("");
+
+  const fields = (): SpamGuardFields => ({
+    [HONEYPOT_FIELD]: honeypot,
+    [FILL_TIME_FIELD]: Date.now() - startedAt,
+  });
+
+  return { honeypot, setHoneypot, startedAt, fields };
+};
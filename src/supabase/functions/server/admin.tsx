@@ -0,0 +1,174 @@
+// Officer-only views over the sign up, match and ballot data
+import { Hono, type Context } from "npm:hono";
+import * as kv from "./sharedStore.tsx";
+import * as cohortKv from "./cohortStore.tsx";
+import { validateEmail } from "../../../utils/formValidation.ts";
+import type { MatchRecord, MatchRun, Officer } from "../../../utils/apiContract.ts";
+import { isOfficerRole, officerKey, requireOfficer, type OfficerEnv } from "./auth.tsx";
+import { readJsonBody, field } from "./http.tsx";
+import { listSignups, type SignupKind } from "./verification.tsx";
+import { listFamilies } from "./families.tsx";
+import { deleteSignupRecord } from "./signups.tsx";
+import { listSignupHistory } from "./signupHistory.tsx";
+import { indexedRepositories, signupRepositories } from "./repositories.tsx";
+
+const admin = new Hono<OfficerEnv>();
+
+admin.use("*", requireOfficer());
+
+// Newest first, so fresh sign ups are at the top of the dashboard
+const byCreatedAtDesc = (a: { createdAt?: string }, b: { createdAt?: string }) =>
+  (b.createdAt ?? "").localeCompare(a.createdAt ?? "");
+
+// The signed in officer, so the dashboard knows which actions to offer
+admin.get("/me", (c) => c.json({ officer: c.get("officer") }));
+
+admin.get("/mentors", async (c) => {
+  try {
+    const mentors = await listSignups("mentor");
+    return c.json({ mentors: mentors.sort(byCreatedAtDesc) });
+  } catch (err) {
+    console.log(`Error listing mentors: ${err}`);
+    return c.json({ error: "Could not load mentors" }, 500);
+  }
+});
+
+admin.get("/mentees", async (c) => {
+  try {
+    const mentees = await listSignups("mentee");
+    return c.json({ mentees: mentees.sort(byCreatedAtDesc) });
+  } catch (err) {
+    console.log(`Error listing mentees: ${err}`);
+    return c.json({ error: "Could not load mentees" }, 500);
+  }
+});
+
+admin.get("/matches", async (c) => {
+  try {
+    const [matches, run] = await Promise.all([
+      cohortKv.getByPrefix<MatchRecord>("match:"),
+      cohortKv.get<MatchRun>("match-run:latest"),
+    ]);
+    return c.json({
+      matches: matches.sort((a, b) => b.score - a.score),
+      run: run ?? null,
+    });
+  } catch (err) {
+    console.log(`Error listing matches: ${err}`);
+    return c.json({ error: "Could not load matches" }, 500);
+  }
+});
+
+// Full family records (pairs and lead mentor) for the assignment tools
+admin.get("/families", async (c) => {
+  try {
+    return c.json({ families: await listFamilies() });
+  } catch (err) {
+    console.log(`Error listing families: ${err}`);
+    return c.json({ error: "Could not load families" }, 500);
+  }
+});
+
+// Delete a sign up along with any proposed matches that include it
+const deleteSignup = (prefix: "mentor" | "mentee") =>
+  async (c: Context<OfficerEnv>) => {
+    const id = c.req.param("id");
+
+    try {
+      const record = await signupRepositories[prefix].get(id);
+      if (!record) {
+        return c.json({ error: "Not found" }, 404);
+      }
+
+      await deleteSignupRecord(prefix, id);
+      console.log(`${c.get("officer").email} deleted ${prefix} ${id}`);
+
+      return c.json({ deleted: id });
+    } catch (err) {
+      console.log(`Error deleting ${prefix}: ${err}`);
+      return c.json({ error: `Could not delete ${prefix}` }, 500);
+    }
+  };
+
+admin.delete("/mentors/:id", requireOfficer("eboard"), deleteSignup("mentor"));
+admin.delete("/mentees/:id", requireOfficer("eboard"), deleteSignup("mentee"));
+
+// Edits and withdrawals students made from "My sign-up"
+const signupHistory = (kind: SignupKind) =>
+  async (c: Context<OfficerEnv>) => {
+    try {
+      return c.json({ history: await listSignupHistory(kind, c.req.param("id")) });
+    } catch (err) {
+      console.log(`Error loading ${kind} history: ${err}`);
+      return c.json({ error: "Could not load the sign up history" }, 500);
+    }
+  };
+
+admin.get("/mentors/:id/history", signupHistory("mentor"));
+admin.get("/mentees/:id/history", signupHistory("mentee"));
+
+// Officer allow-list management
+admin.get("/officers", requireOfficer("eboard"), async (c) => {
+  try {
+    const officers = await kv.getByPrefix<Officer>("officer:");
+    return c.json({ officers: officers.sort((a, b) => a.email.localeCompare(b.email)) });
+  } catch (err) {
+    console.log(`Error listing officers: ${err}`);
+    return c.json({ error: "Could not load officers" }, 500);
+  }
+});
+
+admin.put("/officers/:email", requireOfficer("eboard"), async (c) => {
+  const email = c.req.param("email").toLowerCase();
+  if (!validateEmail(email)) {
+    return c.json({ error: "Validation failed", errors: { email: "Officers must use an @rit.edu address" } }, 400);
+  }
+
+  const body = await readJsonBody(c);
+  const role = body ? field(body, "role") : "";
+  if (!isOfficerRole(role)) {
+    return c.json({ error: "Validation failed", errors: { role: "Role must be officer or eboard" } }, 400);
+  }
+
+  try {
+    const existing = await kv.get<Officer>(officerKey(email));
+    const officer: Officer = { email, role, addedAt: existing?.addedAt ?? new Date().toISOString() };
+    await kv.set(officerKey(email), officer);
+    return c.json({ officer });
+  } catch (err) {
+    console.log(`Error saving officer: ${err}`);
+    return c.json({ error: "Could not save officer" }, 500);
+  }
+});
+
+admin.delete("/officers/:email", requireOfficer("eboard"), async (c) => {
+  const email = c.req.param("email").toLowerCase();
+  if (email === c.get("officer").email) {
+    return c.json({ error: "You can't remove yourself" }, 400);
+  }
+
+  try {
+    await kv.del(officerKey(email));
+    return c.json({ deleted: email });
+  } catch (err) {
+    console.log(`Error removing officer: ${err}`);
+    return c.json({ error: "Could not remove officer" }, 500);
+  }
+});
+
+// Recreate the email and event lookup indexes from the records themselves, for when they have
+// drifted or after importing records written before the indexes existed
+admin.post("/indexes/rebuild", requireOfficer("eboard"), async (c) => {
+  try {
+    const rebuilt = Object.fromEntries(await Promise.all(
+      indexedRepositories.map(async (repository) => [repository.entity, await repository.rebuildIndexes()]),
+    ));
+    console.log(`${c.get("officer").email} rebuilt the lookup indexes`);
+    return c.json({ rebuilt });
+  } catch (err) {
+    console.log(`Error rebuilding indexes: ${err}`);
+    return c.json({ error: "Could not rebuild the indexes" }, 500);
+  }
+});
+
+export default admin;
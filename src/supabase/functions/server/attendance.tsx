@@ -0,0 +1,35 @@
+// Check-in storage helpers
+// Attendance lives under `attendance:<eventId>:<email>`, so checking in twice is a no-op.
+// Each event's QR code carries a secret from `checkin-code:<eventId>`.
+import * as kv from "./cohortStore.tsx";
+import type { AttendanceRecord } from "../../../utils/attendanceSchema.ts";
+
+export const attendanceKey = (eventId: number, email: string) =>
+  `attendance:${eventId}:${email.toLowerCase()}`;
+
+const checkInCodeKey = (eventId: number) => `checkin-code:${eventId}`;
+
+export const listAttendance = (eventId: number): Promise<AttendanceRecord[]> =>
+  kv.getByPrefix(`attendance:${eventId}:`);
+
+export const getCheckInCode = async (eventId: number): Promise<string | null> =>
+  (await kv.get<{ code: string }>(checkInCodeKey(eventId)))?.code ?? null;
+
+// The event's check-in code, created the first time an officer asks for the QR code
+export const ensureCheckInCode = async (eventId: number): Promise<string> => {
+  const existing = await getCheckInCode(eventId);
+  if (existing) return existing;
+
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  const code = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  await kv.set(checkInCodeKey(eventId), { code, createdAt: new Date().toISOString() });
+  return code;
+};
+
+export const deleteAttendance = async (eventId: number) => {
+  const attendance = await listAttendance(eventId);
+  await kv.mdel([
+    checkInCodeKey(eventId),
+    ...attendance.map((record) => attendanceKey(eventId, record.email)),
+  ]);
+};
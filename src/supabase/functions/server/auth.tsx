@@ -0,0 +1,99 @@
+// Officer access control for admin routes
+// Officers sign in with a Supabase Auth magic link; their RIT email must be on the
+// allow-list stored in the KV store under `officer:<email>`.
+import type { Context } from "npm:hono";
+import { createMiddleware } from "npm:hono/factory";
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import * as kv from "./sharedStore.tsx";
+import type { Officer, OfficerRole } from "../../../utils/apiContract.ts";
+
+export type OfficerEnv = { Variables: { officer: Officer } };
+
+const ROLE_LEVELS: Record<OfficerRole, number> = {
+  officer: 1,
+  eboard: 2,
+};
+
+export const isOfficerRole = (role: unknown): role is OfficerRole =>
+  typeof role === "string" && role in ROLE_LEVELS;
+
+export const officerKey = (email: string) => `officer:${email.toLowerCase()}`;
+
+const supabase = () => createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+// E-board members listed in EBOARD_EMAILS always have access, so a fresh
+// deployment can sign in and build the allow-list
+const bootstrapEboard = (): Set<string> =>
+  new Set(
+    (Deno.env.get("EBOARD_EMAILS") ?? "")
+      .split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+  );
+
+// Find the allow-list entry for an email, if any
+export const findOfficer = async (email: string): Promise<Officer | null> => {
+  const normalized = email.toLowerCase();
+  if (bootstrapEboard().has(normalized)) {
+    return { email: normalized, role: "eboard", addedAt: "" };
+  }
+  return (await kv.get(officerKey(normalized))) ?? null;
+};
+
+// Email a magic link, but only to allow-listed officers
+export const sendMagicLink = async (email: string, redirectTo: string): Promise<void> => {
+  if (!(await findOfficer(email))) return;
+
+  const { error } = await supabase().auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: redirectTo },
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// The email of the Supabase Auth user behind the request's bearer token, if it is valid
+const tokenEmail = async (c: Context): Promise<string | null> => {
+  const token = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data, error } = await supabase().auth.getUser(token);
+  return error ? null : data.user?.email ?? null;
+};
+
+// The officer making the request, or null for students and other visitors
+export const requestOfficer = async (c: Context): Promise<Officer | null> => {
+  const email = await tokenEmail(c);
+  return email ? await findOfficer(email) : null;
+};
+
+// Verify the Supabase Auth bearer token and require at least the given role
+export const requireOfficer = (minimumRole: OfficerRole = "officer") =>
+  createMiddleware<OfficerEnv>(async (c, next) => {
+    // An outer requireOfficer already verified the token; only the role is left to check
+    let officer = c.get("officer");
+
+    if (!officer) {
+      const email = await tokenEmail(c);
+      if (!email) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const found = await findOfficer(email);
+      if (!found) {
+        return c.json({ error: "Your account isn't on the officer list" }, 403);
+      }
+      officer = found;
+    }
+
+    if (ROLE_LEVELS[officer.role] < ROLE_LEVELS[minimumRole]) {
+      return c.json({ error: "This action is limited to e-board members" }, 403);
+    }
+
+    c.set("officer", officer);
+    await next();
+  });
@@ -0,0 +1,9 @@
+// The kv_store API, scoped to the request's cohort (see cohorts.tsx)
+// Modules holding per-semester records import this instead of kv_store.tsx.
+import { getKvStore, kvFunctions, scopedKvStore } from "./kvStores.tsx";
+import { cohortPrefix } from "./cohorts.tsx";
+
+// The active store (kvStores.tsx) seen through the request's cohort prefix
+export const cohortKvStore = () => scopedKvStore(getKvStore(), cohortPrefix());
+
+export const { set, get, del, mset, mget, mdel, getByPrefix } = kvFunctions(cohortKvStore);
@@ -0,0 +1,224 @@
+// Cohorts: each semester's sign ups, matches, events and points live under their own keys
+// The registry is stored under `cohorts`. A cohort's records are prefixed `cohort/<id>/`, except
+// Fall 2025, which predates cohorts and keeps its original unprefixed keys. Requests work in the
+// current cohort unless the X-Cohort header names another; archived cohorts are read-only.
+// Officers, portal sessions and form schemas are shared by every cohort.
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Hono } from "npm:hono";
+import { createMiddleware } from "npm:hono/factory";
+import * as kv from "./sharedStore.tsx";
+import {
+  LEGACY_COHORT,
+  cohortIdFromName,
+  deadlineFromDay,
+  validateCohortDeadlines,
+  validateCohortName,
+  type Cohort,
+  type CohortRegistry,
+} from "../../../utils/cohortSchema.ts";
+import { requestOfficer, requireOfficer, type OfficerEnv } from "./auth.tsx";
+import { readJsonBody, field } from "./http.tsx";
+
+const cohorts = new Hono<OfficerEnv>();
+
+const REGISTRY_KEY = "cohorts";
+
+const activeCohort = new AsyncLocalStorage<Cohort>();
+
+export const loadCohorts = async (): Promise<CohortRegistry> => {
+  const registry = await kv.get<CohortRegistry>(REGISTRY_KEY);
+  if (!registry) return { currentId: LEGACY_COHORT.id, cohorts: [LEGACY_COHORT] };
+
+  // Fall 2025 was saved before cohorts had deadlines, so it keeps the ones it ran with
+  return {
+    ...registry,
+    cohorts: registry.cohorts.map((cohort) => cohort.id === LEGACY_COHORT.id ? { ...LEGACY_COHORT, ...cohort } : cohort),
+  };
+};
+
+// The cohort the request is working in
+export const currentCohort = (): Cohort => {
+  const cohort = activeCohort.getStore();
+  if (!cohort) {
+    throw new Error("No cohort selected for this request");
+  }
+  return cohort;
+};
+
+export const cohortPrefix = () => {
+  const { id } = currentCohort();
+  return id === LEGACY_COHORT.id ? "" : `cohort/${id}/`;
+};
+
+// Archived cohorts are kept as they were; nothing, not even a lazy setup step, writes to them
+export const isReadOnlyCohort = () => currentCohort().status === "archived";
+
+// Run fn against another cohort's records, e.g. to find a returning mentor's last sign up
+export const runInCohort = <T,>(cohort: Cohort, fn: () => Promise<T>): Promise<T> => activeCohort.run(cohort, fn);
+
+const isWrite = (method: string) => !["GET", "HEAD", "OPTIONS"].includes(method);
+
+// Picks the request's cohort; index.tsx registers it after the routes that aren't cohort-scoped.
+// Only officers can pick another cohort with X-Cohort; everyone else works in the current one.
+export const withCohort = createMiddleware<OfficerEnv>(async (c, next) => {
+  try {
+    const registry = await loadCohorts();
+    const requested = c.req.header("X-Cohort");
+    let id = registry.currentId;
+    if (requested && requested !== registry.currentId) {
+      const officer = await requestOfficer(c);
+      if (officer) {
+        // Saves requireOfficer checking the token again
+        c.set("officer", officer);
+        id = requested;
+      }
+    }
+    const cohort = registry.cohorts.find((item) => item.id === id);
+    if (!cohort) {
+      return c.json({ error: "Unknown cohort" }, 404);
+    }
+    if (cohort.status === "archived" && isWrite(c.req.method)) {
+      return c.json({ error: `${cohort.name} is archived, so its records can't be changed` }, 409);
+    }
+
+    await runInCohort(cohort, next);
+  } catch (err) {
+    console.log(`Error selecting cohort: ${err}`);
+    return c.json({ error: "Could not load cohorts" }, 500);
+  }
+});
+
+// Public: the sign up forms and the dashboard switcher both need the current cohort
+cohorts.get("/", async (c) => {
+  try {
+    return c.json(await loadCohorts());
+  } catch (err) {
+    console.log(`Error listing cohorts: ${err}`);
+    return c.json({ error: "Could not load cohorts" }, 500);
+  }
+});
+
+cohorts.post("/", requireOfficer("eboard"), async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  try {
+    const registry = await loadCohorts();
+    const name = field(body, "name");
+    const errors = validateCohortName(name, registry.cohorts);
+    if (Object.keys(errors).length > 0) {
+      return c.json({ error: "Validation failed", errors }, 400);
+    }
+
+    const cohort: Cohort = {
+      id: cohortIdFromName(name),
+      name: name.trim(),
+      status: "active",
+      createdAt: new Date().toISOString(),
+    };
+    await kv.set(REGISTRY_KEY, { ...registry, cohorts: [...registry.cohorts, cohort] });
+    console.log(`${c.get("officer").email} created cohort ${cohort.id}`);
+
+    return c.json({ cohort }, 201);
+  } catch (err) {
+    console.log(`Error creating cohort: ${err}`);
+    return c.json({ error: "Could not create the cohort" }, 500);
+  }
+});
+
+// New sign ups, the public calendar and the dashboard default to the current cohort
+cohorts.post("/:id/current", requireOfficer("eboard"), async (c) => {
+  const id = c.req.param("id");
+
+  try {
+    const registry = await loadCohorts();
+    const cohort = registry.cohorts.find((item) => item.id === id);
+    if (!cohort) {
+      return c.json({ error: "Not found" }, 404);
+    }
+    if (cohort.status === "archived") {
+      return c.json({ error: "An archived cohort can't be made current" }, 409);
+    }
+
+    await kv.set(REGISTRY_KEY, { ...registry, currentId: id });
+    console.log(`${c.get("officer").email} made ${id} the current cohort`);
+
+    return c.json({ currentId: id });
+  } catch (err) {
+    console.log(`Error changing the current cohort: ${err}`);
+    return c.json({ error: "Could not change the current cohort" }, 500);
+  }
+});
+
+// Ballot and matching deadlines, each the end of a day Eastern time; a blank day clears it
+cohorts.put("/:id/deadlines", requireOfficer("eboard"), async (c) => {
+  const id = c.req.param("id");
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const days = { ballotDay: field(body, "ballotDay"), matchingDay: field(body, "matchingDay") };
+  const errors = validateCohortDeadlines(days);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    const registry = await loadCohorts();
+    const cohort = registry.cohorts.find((item) => item.id === id);
+    if (!cohort) {
+      return c.json({ error: "Not found" }, 404);
+    }
+    if (cohort.status === "archived") {
+      return c.json({ error: `${cohort.name} is archived, so its records can't be changed` }, 409);
+    }
+
+    const updated: Cohort = {
+      ...cohort,
+      ballotDeadline: deadlineFromDay(days.ballotDay),
+      matchingDeadline: deadlineFromDay(days.matchingDay),
+    };
+    await kv.set(REGISTRY_KEY, {
+      ...registry,
+      cohorts: registry.cohorts.map((item) => item.id === id ? updated : item),
+    });
+    console.log(`${c.get("officer").email} set the ${id} deadlines`);
+
+    return c.json({ cohort: updated });
+  } catch (err) {
+    console.log(`Error setting cohort deadlines: ${err}`);
+    return c.json({ error: "Could not save the deadlines" }, 500);
+  }
+});
+
+cohorts.post("/:id/archive", requireOfficer("eboard"), async (c) => {
+  const id = c.req.param("id");
+
+  try {
+    const registry = await loadCohorts();
+    const cohort = registry.cohorts.find((item) => item.id === id);
+    if (!cohort) {
+      return c.json({ error: "Not found" }, 404);
+    }
+    if (id === registry.currentId) {
+      return c.json({ error: "Make another cohort current before archiving this one" }, 409);
+    }
+
+    const archived: Cohort = { ...cohort, status: "archived", archivedAt: new Date().toISOString() };
+    await kv.set(REGISTRY_KEY, {
+      ...registry,
+      cohorts: registry.cohorts.map((item) => item.id === id ? archived : item),
+    });
+    console.log(`${c.get("officer").email} archived cohort ${id}`);
+
+    return c.json({ cohort: archived });
+  } catch (err) {
+    console.log(`Error archiving cohort: ${err}`);
+    return c.json({ error: "Could not archive the cohort" }, 500);
+  }
+});
+
+export default cohorts;
@@ -0,0 +1,77 @@
+// One-time conversions of stored events to the current schema
+// Version 2 replaced the free-text `time`/`date`/`day` fields with `startsAt`,
+// `endsAt` and an IANA `timeZone`. The applied version is kept under `events:schema`.
+import * as kv from "./cohortStore.tsx";
+import type { EventRecord } from "../../../utils/eventSchema.ts";
+import { DEFAULT_TIME_ZONE, zonedTimeToUtc } from "../../../utils/eventFormatting.ts";
+import { isRecord } from "./repository.tsx";
+import { isReadOnlyCohort } from "./cohorts.tsx";
+
+export const EVENT_SCHEMA_VERSION = 2;
+const SCHEMA_KEY = "events:schema";
+
+// Shape written before version 2
+interface LegacyEvent extends Omit<EventRecord, "startsAt" | "endsAt" | "timeZone"> {
+  time: string; // e.g. "5:00 PM - 7:00 PM"
+  date: string; // e.g. "August 29th, 2025"
+  day: string; // "YYYY-MM-DD"
+}
+
+const isLegacyEvent = (record: unknown): record is LegacyEvent =>
+  isRecord(record) && typeof record.time === "string" && typeof record.day === "string" && !record.startsAt;
+
+// "5:00 PM" -> "17:00", or null when it isn't a clock time
+const parseClockTime = (value: string | undefined): string | null => {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]) % 12;
+  if (match[3].toUpperCase() === "PM") hours += 12;
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+};
+
+const addHour = (clock: string) => {
+  const [hours, minutes] = clock.split(":").map(Number);
+  return `${String(Math.min(hours + 1, 23)).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+// Legacy times were wall clock times in Rochester; unreadable ones become a noon placeholder
+export const migrateLegacyEvent = (legacy: LegacyEvent): EventRecord => {
+  const { time, date: _date, day, ...rest } = legacy;
+  const [startText, endText] = time.split(" - ");
+  const start = parseClockTime(startText) ?? "12:00";
+  const end = parseClockTime(endText) ?? addHour(start);
+
+  if (!parseClockTime(startText)) {
+    console.log(`Event ${legacy.id} had an unreadable time "${time}"; defaulting to ${start}`);
+  }
+
+  const startsAt = zonedTimeToUtc(day, start, DEFAULT_TIME_ZONE);
+  let endsAt = zonedTimeToUtc(day, end, DEFAULT_TIME_ZONE);
+  // Ranges like "10:00 PM - 1:00 AM" end the next day
+  if (endsAt <= startsAt) {
+    endsAt = new Date(Date.parse(endsAt) + 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  return { ...rest, startsAt, endsAt, timeZone: DEFAULT_TIME_ZONE };
+};
+
+// An event as the current schema has it, for archived cohorts that were never migrated
+export const upgradeEvent = (record: unknown): EventRecord =>
+  isLegacyEvent(record) ? migrateLegacyEvent(record) : record as EventRecord;
+
+// Bring every stored event up to the current schema
+export const migrateEvents = async () => {
+  if (isReadOnlyCohort()) return;
+  const applied = await kv.get<{ version: number }>(SCHEMA_KEY);
+  if ((applied?.version ?? 0) >= EVENT_SCHEMA_VERSION) return;
+
+  const stored = await kv.getByPrefix("event:");
+  const migrated = stored.filter(isLegacyEvent).map(migrateLegacyEvent);
+
+  if (migrated.length > 0) {
+    await kv.mset(migrated.map((event) => `event:${event.id}`), migrated);
+    console.log(`Migrated ${migrated.length} events to schema version ${EVENT_SCHEMA_VERSION}`);
+  }
+  await kv.set(SCHEMA_KEY, { version: EVENT_SCHEMA_VERSION, migratedAt: new Date().toISOString() });
+};
@@ -0,0 +1,500 @@
+// Event store: public reads, officer-managed writes
+// Events live in the KV store under `event:<id>`, per cohort. The Fall 2025 cohort is seeded
+// once from data/events.ts so the calendar isn't blank after deploying; later cohorts start empty.
+// Ids come from one counter shared by every cohort, since an event's calendar UID is its id.
+import { Hono, type Context } from "npm:hono";
+import * as kv from "./cohortStore.tsx";
+import { getKvStore } from "./kvStores.tsx";
+import {
+  validateEvent,
+  type EventFormData,
+  type EventRecord,
+  type EventStatus,
+} from "../../../utils/eventSchema.ts";
+import { seedEvents } from "../../../data/events.ts";
+import { LEGACY_COHORT } from "../../../utils/cohortSchema.ts";
+import { currentCohort, isReadOnlyCohort, loadCohorts, runInCohort } from "./cohorts.tsx";
+import { requireOfficer, type OfficerEnv } from "./auth.tsx";
+import { readJsonBody, field } from "./http.tsx";
+import { rateLimit } from "./rateLimit.tsx";
+import { migrateEvents, upgradeEvent } from "./eventMigrations.tsx";
+import { buildCalendar } from "../../../utils/icalendar.ts";
+import {
+  applyWaitlist,
+  countRsvps,
+  validateRsvp,
+  type RsvpFormData,
+  type RsvpRecord,
+} from "../../../utils/rsvpSchema.ts";
+import { deleteRsvps, listRsvps, listRsvpsByEvent } from "./rsvps.tsx";
+import { rsvpId, rsvpRepository } from "./repositories.tsx";
+import { ConflictError } from "./repository.tsx";
+import {
+  checkInWindow,
+  checkInWindowStatus,
+  validateCheckIn,
+  type AttendanceRecord,
+} from "../../../utils/attendanceSchema.ts";
+import {
+  attendanceKey,
+  deleteAttendance,
+  ensureCheckInCode,
+  getCheckInCode,
+  listAttendance,
+} from "./attendance.tsx";
+
+const events = new Hono<OfficerEnv>();
+
+const eventKey = (id: number) => `event:${id}`;
+const SEEDED_KEY = "events:seeded";
+const NEXT_ID_KEY = "events:next-global-id";
+const NEXT_ID_ATTEMPTS = 3;
+
+interface IdCounter {
+  next: number;
+  version: number;
+}
+
+// Store instants in one format so they sort and compare as plain strings
+const normalizeInstant = (value: string) => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+};
+
+// Coerce an untrusted request body into the event form shape
+const toEventFormData = (body: Record<string, unknown>): EventFormData => ({
+  title: field(body, "title"),
+  type: (field(body, "type") || undefined) as EventFormData["type"],
+  startsAt: normalizeInstant(field(body, "startsAt")),
+  endsAt: normalizeInstant(field(body, "endsAt")),
+  timeZone: field(body, "timeZone"),
+  location: field(body, "location"),
+  description: field(body, "description"),
+  link: field(body, "link") || undefined,
+  capacity: field(body, "capacity") ? Number(field(body, "capacity")) : undefined,
+});
+
+const parseId = (param: string): number | null => {
+  const id = Number(param);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// Seed the store the first time it is read; the marker keeps deleted seeds from coming back
+const ensureSeeded = async () => {
+  if (currentCohort().id !== LEGACY_COHORT.id || isReadOnlyCohort() || await kv.get(SEEDED_KEY)) return;
+
+  const existing = await kv.getByPrefix("event:");
+  if (existing.length === 0) {
+    const seeded = seedEvents.map((event) => ({
+      ...event,
+      startsAt: normalizeInstant(event.startsAt),
+      endsAt: normalizeInstant(event.endsAt),
+      status: "scheduled",
+    }));
+    await kv.mset(seeded.map((event) => eventKey(event.id)), seeded);
+  }
+  await kv.set(SEEDED_KEY, { seededAt: new Date().toISOString() });
+};
+
+// The highest id stored in any cohort, where the shared counter starts when it is first used
+const highestEventId = async () => {
+  const { cohorts } = await loadCohorts();
+  const ids = await Promise.all(cohorts.map((cohort) =>
+    runInCohort(cohort, async () => (await kv.getByPrefix<EventRecord>("event:")).map((event) => event.id))
+  ));
+  return Math.max(0, ...ids.flat(), ...seedEvents.map((event) => event.id));
+};
+
+// Reserve the id for a new event. Ids are never handed out twice, even after the newest event
+// is deleted, so a new event can't take over a deleted one's calendar UID, RSVPs or attendance.
+const nextEventId = async (): Promise<number> => {
+  const store = getKvStore();
+  for (let attempt = 1; ; attempt++) {
+    const counter = (await store.get(NEXT_ID_KEY)) as IdCounter | null;
+    const next = counter?.next ?? (await highestEventId()) + 1;
+    const version = counter?.version ?? 0;
+    if (await store.compareAndSet(NEXT_ID_KEY, version, { next: next + 1, version: version + 1 })) {
+      return next;
+    }
+    if (attempt >= NEXT_ID_ATTEMPTS) {
+      throw new Error("Could not reserve an event id");
+    }
+  }
+};
+
+export const listEvents = async (): Promise<EventRecord[]> => {
+  await ensureSeeded();
+  await migrateEvents();
+  const stored = (await kv.getByPrefix("event:")).map(upgradeEvent);
+  return stored.sort((a, b) => a.startsAt.localeCompare(b.startsAt) || a.id - b.id);
+};
+
+// Subscription feed for calendar apps; index.tsx serves it at /events.ics
+export const calendarFeed = async (c: Context) => {
+  try {
+    return c.body(buildCalendar(await listEvents()), 200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="acs-events.ics"',
+      "Cache-Control": "public, max-age=300",
+    });
+  } catch (err) {
+    console.log(`Error building calendar feed: ${err}`);
+    return c.json({ error: "Could not build calendar feed" }, 500);
+  }
+};
+
+events.get("/", async (c) => {
+  try {
+    return c.json({ events: await listEvents() });
+  } catch (err) {
+    console.log(`Error listing events: ${err}`);
+    return c.json({ error: "Could not load events" }, 500);
+  }
+});
+
+// RSVP counts for every event, polled by the event cards
+events.get("/rsvp-counts", async (c) => {
+  try {
+    const [stored, rsvpsByEvent] = await Promise.all([listEvents(), listRsvpsByEvent()]);
+    const counts = Object.fromEntries(
+      stored.map((event) => [event.id, countRsvps(rsvpsByEvent.get(event.id) ?? [], event.capacity)]),
+    );
+    return c.json({ counts });
+  } catch (err) {
+    console.log(`Error counting RSVPs: ${err}`);
+    return c.json({ error: "Could not load RSVP counts" }, 500);
+  }
+});
+
+events.get("/:id", async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  try {
+    const event = await kv.get(eventKey(id));
+    return event ? c.json({ event }) : c.json({ error: "Not found" }, 404);
+  } catch (err) {
+    console.log(`Error loading event: ${err}`);
+    return c.json({ error: "Could not load event" }, 500);
+  }
+});
+
+events.post("/", requireOfficer(), async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const formData = toEventFormData(body);
+  const errors = validateEvent(formData);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    const id = await nextEventId();
+    const now = new Date().toISOString();
+    const event: EventRecord = { id, ...formData, status: "scheduled", createdAt: now, updatedAt: now };
+
+    await kv.set(eventKey(id), event);
+    console.log(`${c.get("officer").email} created event ${id}`);
+
+    return c.json({ event }, 201);
+  } catch (err) {
+    console.log(`Error creating event: ${err}`);
+    return c.json({ error: "Could not create event" }, 500);
+  }
+});
+
+events.put("/:id", requireOfficer(), async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const formData = toEventFormData(body);
+  const errors = validateEvent(formData);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    const existing: EventRecord | null = await kv.get(eventKey(id));
+    if (!existing) {
+      return c.json({ error: "Not found" }, 404);
+    }
+
+    const event: EventRecord = {
+      id,
+      ...formData,
+      status: existing.status,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+      sequence: (existing.sequence ?? 0) + 1,
+    };
+    await kv.set(eventKey(id), event);
+    console.log(`${c.get("officer").email} updated event ${id}`);
+
+    return c.json({ event });
+  } catch (err) {
+    console.log(`Error updating event: ${err}`);
+    return c.json({ error: "Could not update event" }, 500);
+  }
+});
+
+const rsvpLimit = rateLimit("rsvp", { windowMinutes: 60, perIp: 60, perEmail: 20 });
+// Everyone checking in at an event is on the same Wi-Fi, so check-ins allow many per address
+const checkInLimit = rateLimit("check-in", { windowMinutes: 60, perIp: 300, perEmail: 10 });
+
+// RSVP with an RIT email; answering again replaces the earlier response
+events.post("/:id/rsvps", rsvpLimit, async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const formData = {
+    email: field(body, "email").toLowerCase(),
+    response: field(body, "response"),
+  } as RsvpFormData;
+  const errors = validateRsvp(formData);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    const event: EventRecord | null = await kv.get(eventKey(id));
+    if (!event) {
+      return c.json({ error: "Not found" }, 404);
+    }
+    if (event.status === "cancelled") {
+      return c.json({ error: "This event has been cancelled" }, 409);
+    }
+    if (Date.parse(event.endsAt) < Date.now()) {
+      return c.json({ error: "This event has already happened" }, 409);
+    }
+
+    const existing = await rsvpRepository.get(rsvpId(id, formData.email));
+    const now = new Date().toISOString();
+    // Keep a waitlisted person's place when they re-submit "going"
+    const goingSince = formData.response === "going"
+      ? (existing?.response === "going" && existing.goingSince) || now
+      : undefined;
+
+    const rsvp: RsvpRecord = {
+      eventId: id,
+      ...formData,
+      goingSince,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await rsvpRepository.save(rsvpId(id, formData.email), rsvp, existing?.version ?? 0);
+
+    const entries = applyWaitlist(await listRsvps(id), event.capacity);
+    return c.json({
+      rsvp: entries.find((entry) => entry.email === formData.email) ?? { ...rsvp, waitlistPosition: null },
+      counts: countRsvps(entries, event.capacity),
+    });
+  } catch (err) {
+    if (err instanceof ConflictError) {
+      return c.json({ error: "Your RSVP was just changed from another tab. Please try again." }, 409);
+    }
+    console.log(`Error saving RSVP: ${err}`);
+    return c.json({ error: "Could not save your RSVP" }, 500);
+  }
+});
+
+// Everyone who responded, with waitlist positions, for the officer dashboard
+events.get("/:id/rsvps", requireOfficer(), async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  try {
+    const event: EventRecord | null = await kv.get(eventKey(id));
+    if (!event) {
+      return c.json({ error: "Not found" }, 404);
+    }
+
+    const rsvps = await listRsvps(id);
+    return c.json({
+      rsvps: applyWaitlist(rsvps, event.capacity).sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      counts: countRsvps(rsvps, event.capacity),
+    });
+  } catch (err) {
+    console.log(`Error listing RSVPs: ${err}`);
+    return c.json({ error: "Could not load RSVPs" }, 500);
+  }
+});
+
+// Check in at the event with the code from its QR code; repeat check-ins are acknowledged, not duplicated
+events.post("/:id/check-in", checkInLimit, async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const formData = {
+    email: field(body, "email").toLowerCase(),
+    name: field(body, "name"),
+    code: field(body, "code"),
+  };
+  const errors = validateCheckIn(formData);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    const event: EventRecord | null = await kv.get(eventKey(id));
+    if (!event) {
+      return c.json({ error: "Not found" }, 404);
+    }
+    if (event.status === "cancelled") {
+      return c.json({ error: "This event has been cancelled" }, 409);
+    }
+    if (formData.code !== (await getCheckInCode(id))) {
+      return c.json({ error: "This check-in link isn't valid. Scan the QR code at the event." }, 403);
+    }
+
+    const windowStatus = checkInWindowStatus(event);
+    if (windowStatus !== "open") {
+      const { opensAt, closesAt } = checkInWindow(event);
+      return c.json({
+        error: windowStatus === "upcoming" ? "Check-in hasn't opened yet" : "Check-in for this event has closed",
+        window: { status: windowStatus, opensAt: opensAt.toISOString(), closesAt: closesAt.toISOString() },
+      }, 409);
+    }
+
+    const existing: AttendanceRecord | null = await kv.get(attendanceKey(id, formData.email));
+    if (existing) {
+      return c.json({ attendance: existing, alreadyCheckedIn: true });
+    }
+
+    const attendance: AttendanceRecord = {
+      eventId: id,
+      email: formData.email,
+      name: formData.name,
+      checkedInAt: new Date().toISOString(),
+    };
+    await kv.set(attendanceKey(id, formData.email), attendance);
+
+    return c.json({ attendance, alreadyCheckedIn: false }, 201);
+  } catch (err) {
+    console.log(`Error checking in: ${err}`);
+    return c.json({ error: "Could not check you in" }, 500);
+  }
+});
+
+// The secret that goes in the event's QR code
+events.get("/:id/check-in-code", requireOfficer(), async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  try {
+    if (!(await kv.get(eventKey(id)))) {
+      return c.json({ error: "Not found" }, 404);
+    }
+    // An archived cohort's events keep the code they had, if any
+    const code = isReadOnlyCohort() ? await getCheckInCode(id) : await ensureCheckInCode(id);
+    if (!code) {
+      return c.json({ error: `${currentCohort().name} is archived, so new check-in codes can't be made` }, 409);
+    }
+    return c.json({ code });
+  } catch (err) {
+    console.log(`Error loading check-in code: ${err}`);
+    return c.json({ error: "Could not load check-in code" }, 500);
+  }
+});
+
+events.get("/:id/attendance", requireOfficer(), async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  try {
+    const attendance = await listAttendance(id);
+    return c.json({ attendance: attendance.sort((a, b) => a.checkedInAt.localeCompare(b.checkedInAt)) });
+  } catch (err) {
+    console.log(`Error listing attendance: ${err}`);
+    return c.json({ error: "Could not load attendance" }, 500);
+  }
+});
+
+// Cancel or reinstate an event without losing its details
+const setStatus = (status: EventStatus) =>
+  async (c: Context<OfficerEnv>) => {
+    const id = parseId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Not found" }, 404);
+    }
+
+    try {
+      const existing: EventRecord | null = await kv.get(eventKey(id));
+      if (!existing) {
+        return c.json({ error: "Not found" }, 404);
+      }
+
+      const event: EventRecord = {
+        ...existing,
+        status,
+        updatedAt: new Date().toISOString(),
+        sequence: (existing.sequence ?? 0) + 1,
+      };
+      await kv.set(eventKey(id), event);
+      console.log(`${c.get("officer").email} marked event ${id} ${status}`);
+
+      return c.json({ event });
+    } catch (err) {
+      console.log(`Error updating event status: ${err}`);
+      return c.json({ error: "Could not update event" }, 500);
+    }
+  };
+
+events.post("/:id/cancel", requireOfficer(), setStatus("cancelled"));
+events.post("/:id/reinstate", requireOfficer(), setStatus("scheduled"));
+
+events.delete("/:id", requireOfficer("eboard"), async (c) => {
+  const id = parseId(c.req.param("id"));
+  if (!id) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  try {
+    if (!(await kv.get(eventKey(id)))) {
+      return c.json({ error: "Not found" }, 404);
+    }
+
+    await kv.del(eventKey(id));
+    await deleteRsvps(id);
+    await deleteAttendance(id);
+    console.log(`${c.get("officer").email} deleted event ${id}`);
+
+    return c.json({ deleted: id });
+  } catch (err) {
+    console.log(`Error deleting event: ${err}`);
+    return c.json({ error: "Could not delete event" }, 500);
+  }
+});
+
+export default events;
@@ -0,0 +1,223 @@
+// Mentor families: groups of matched pairs under a lead mentor
+// Families live under `family:<id>` and reference pairs by match id. Match ids are
+// `<mentorId>:<menteeId>`, so a pair keeps its family when matching is re-run.
+import { Hono } from "npm:hono";
+import * as kv from "./cohortStore.tsx";
+import {
+  validateFamily,
+  type FamilyErrors,
+  type FamilyFormData,
+  type FamilyMember,
+  type FamilyPage,
+  type FamilyRecord,
+} from "../../../utils/familySchema.ts";
+import { requireOfficer, type OfficerEnv } from "./auth.tsx";
+import { readJsonBody, field } from "./http.tsx";
+import { listVerifiedSignups, type Verifiable } from "./verification.tsx";
+import { scoreMembers, type MemberPoints } from "./points.tsx";
+
+const families = new Hono<OfficerEnv>();
+
+const familyKey = (id: string) => `family:${id}`;
+
+interface Member extends Verifiable {
+  name: string;
+}
+
+interface Match {
+  id: string;
+  mentorId: string;
+  menteeId: string;
+}
+
+export const listFamilies = async (): Promise<FamilyRecord[]> => {
+  const stored: FamilyRecord[] = await kv.getByPrefix("family:");
+  return stored.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const toFamilyFormData = (body: Record<string, unknown>): FamilyFormData => ({
+  name: field(body, "name"),
+  leadMentorId: field(body, "leadMentorId"),
+  matchIds: Array.isArray(body.matchIds) ? [...new Set(body.matchIds.map(String))] : [],
+});
+
+// Rules that need the stored matches and the other families
+const checkAssignments = async (formData: FamilyFormData, familyId?: string): Promise<FamilyErrors> => {
+  const [matches, existing] = await Promise.all([
+    kv.getByPrefix("match:") as Promise<Match[]>,
+    listFamilies(),
+  ]);
+  const matchesById = new Map(matches.map((match) => [match.id, match]));
+  const errors: FamilyErrors = {};
+
+  const assigned = new Set(
+    existing.filter((family) => family.id !== familyId).flatMap((family) => family.matchIds)
+  );
+
+  if (formData.matchIds.some((id) => !matchesById.has(id))) {
+    errors.matchIds = "Some of these pairs no longer exist. Refresh and try again.";
+  } else if (formData.matchIds.some((id) => assigned.has(id))) {
+    errors.matchIds = "A pair can only belong to one family";
+  }
+
+  const mentorIds = formData.matchIds.map((id) => matchesById.get(id)?.mentorId);
+  if (formData.leadMentorId && !mentorIds.includes(formData.leadMentorId)) {
+    errors.leadMentorId = "The lead mentor must be a mentor in one of the family's pairs";
+  }
+
+  return errors;
+};
+
+// Resolve a family's pairs into named members with their points. Pairs or sign ups
+// deleted since the family was saved are skipped.
+const buildFamilyPage = (
+  family: FamilyRecord,
+  matchesById: Map<string, Match>,
+  mentorsById: Map<string, Member>,
+  menteesById: Map<string, Member>,
+  scores: Map<string, MemberPoints>,
+): FamilyPage => {
+  const pairs = family.matchIds.flatMap((id) => matchesById.get(id) ?? []);
+  const mentorIds = [...new Set(pairs.map((pair) => pair.mentorId))];
+  const menteeIds = [...new Set(pairs.map((pair) => pair.menteeId))];
+
+  const toMember = (record: Member | undefined, role: FamilyMember["role"]): FamilyMember[] => {
+    if (!record) return [];
+    const score = scores.get(record.email.toLowerCase());
+    return [{
+      name: record.name,
+      role,
+      isLead: role === "mentor" && record.id === family.leadMentorId,
+      points: score?.points ?? 0,
+      eventsAttended: score?.eventsAttended ?? 0,
+    }];
+  };
+
+  const members = [
+    ...mentorIds.flatMap((id) => toMember(mentorsById.get(id), "mentor")),
+    ...menteeIds.flatMap((id) => toMember(menteesById.get(id), "mentee")),
+  ].sort((a, b) => Number(b.isLead) - Number(a.isLead));
+
+  return {
+    id: family.id,
+    name: family.name,
+    members,
+    points: members.reduce((total, member) => total + member.points, 0),
+  };
+};
+
+const loadFamilyPages = async (): Promise<FamilyPage[]> => {
+  const [stored, matches, mentors, mentees, scores] = await Promise.all([
+    listFamilies(),
+    kv.getByPrefix("match:") as Promise<Match[]>,
+    listVerifiedSignups<Member>("mentor"),
+    listVerifiedSignups<Member>("mentee"),
+    scoreMembers(),
+  ]);
+
+  const matchesById = new Map(matches.map((match) => [match.id, match]));
+  const mentorsById = new Map(mentors.map((mentor) => [mentor.id, mentor]));
+  const menteesById = new Map(mentees.map((mentee) => [mentee.id, mentee]));
+
+  return stored.map((family) => buildFamilyPage(family, matchesById, mentorsById, menteesById, scores));
+};
+
+// Public directory, highest scoring family first
+families.get("/", async (c) => {
+  try {
+    const pages = await loadFamilyPages();
+    return c.json({
+      families: pages
+        .map(({ id, name, members, points }) => ({ id, name, memberCount: members.length, points }))
+        .sort((a, b) => b.points - a.points || a.name.localeCompare(b.name)),
+    });
+  } catch (err) {
+    console.log(`Error listing families: ${err}`);
+    return c.json({ error: "Could not load families" }, 500);
+  }
+});
+
+families.get("/:id", async (c) => {
+  try {
+    const family = (await loadFamilyPages()).find((page) => page.id === c.req.param("id"));
+    if (!family) {
+      return c.json({ error: "Family not found" }, 404);
+    }
+    return c.json({ family });
+  } catch (err) {
+    console.log(`Error loading family: ${err}`);
+    return c.json({ error: "Could not load family" }, 500);
+  }
+});
+
+families.post("/", requireOfficer(), async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const formData = toFamilyFormData(body);
+  try {
+    const errors = { ...validateFamily(formData), ...(await checkAssignments(formData)) };
+    if (Object.keys(errors).length > 0) {
+      return c.json({ error: "Validation failed", errors }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const family: FamilyRecord = { id: crypto.randomUUID(), ...formData, createdAt: now, updatedAt: now };
+    await kv.set(familyKey(family.id), family);
+    console.log(`${c.get("officer").email} created family ${family.id}`);
+
+    return c.json({ family }, 201);
+  } catch (err) {
+    console.log(`Error creating family: ${err}`);
+    return c.json({ error: "Could not save family" }, 500);
+  }
+});
+
+families.put("/:id", requireOfficer(), async (c) => {
+  const id = c.req.param("id");
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const formData = toFamilyFormData(body);
+  try {
+    const existing: FamilyRecord | null = await kv.get(familyKey(id));
+    if (!existing) {
+      return c.json({ error: "Family not found" }, 404);
+    }
+
+    const errors = { ...validateFamily(formData), ...(await checkAssignments(formData, id)) };
+    if (Object.keys(errors).length > 0) {
+      return c.json({ error: "Validation failed", errors }, 400);
+    }
+
+    const family: FamilyRecord = { ...existing, ...formData, updatedAt: new Date().toISOString() };
+    await kv.set(familyKey(id), family);
+    console.log(`${c.get("officer").email} updated family ${id}`);
+
+    return c.json({ family });
+  } catch (err) {
+    console.log(`Error updating family: ${err}`);
+    return c.json({ error: "Could not save family" }, 500);
+  }
+});
+
+families.delete("/:id", requireOfficer("eboard"), async (c) => {
+  const id = c.req.param("id");
+  try {
+    if (!(await kv.get(familyKey(id)))) {
+      return c.json({ error: "Family not found" }, 404);
+    }
+    await kv.del(familyKey(id));
+    console.log(`${c.get("officer").email} deleted family ${id}`);
+    return c.json({ deleted: id });
+  } catch (err) {
+    console.log(`Error deleting family: ${err}`);
+    return c.json({ error: "Could not delete family" }, 500);
+  }
+});
+
+export default families;
@@ -0,0 +1,121 @@
+// Sign up questions per semester, stored under `form-schema:<semester>:<kind>`
+// The semester is a cohort name; semesters nobody has edited use the default questions.
+import { Hono } from "npm:hono";
+import * as kv from "./sharedStore.tsx";
+import {
+  DEFAULT_FORM_FIELDS,
+  FIELD_TYPE_LABELS,
+  enforceLockedFields,
+  isSemester,
+  isSignupFormKind,
+  validateFormSchema,
+  type FieldType,
+  type FieldValidator,
+  type FormField,
+  type FormSchema,
+  type SignupFormKind,
+} from "../../../utils/formSchema.ts";
+import { requireOfficer, type OfficerEnv } from "./auth.tsx";
+import { readJsonBody, field } from "./http.tsx";
+import { currentCohort } from "./cohorts.tsx";
+import { isRecord } from "./repository.tsx";
+
+const formSchemas = new Hono<OfficerEnv>();
+
+const schemaKey = (semester: string, kind: SignupFormKind) => `form-schema:${semester}:${kind}`;
+
+export const loadFormSchema = async (kind: SignupFormKind, semester = currentCohort().name): Promise<FormSchema> => {
+  const stored: FormSchema | null = await kv.get(schemaKey(semester, kind));
+  // Schemas saved before validators were checked may hold null entries
+  const fields = stored?.fields.map((item) => ({ ...item, validators: item.validators?.filter(isRecord) }));
+  return stored && fields
+    ? { ...stored, fields: enforceLockedFields(kind, fields) }
+    : { semester, fields: DEFAULT_FORM_FIELDS[kind] };
+};
+
+const optionalText = (body: Record<string, unknown>, key: string) => field(body, key) || undefined;
+
+// Coerce one untrusted question from the editor
+const toFormField = (body: Record<string, unknown>): FormField => {
+  const type = field(body, "type");
+  const options = Array.isArray(body.options) ? body.options.map((option) => String(option).trim()) : undefined;
+  const validators = Array.isArray(body.validators)
+    // Entries that aren't objects (e.g. null) are dropped rather than read
+    ? body.validators.filter(isRecord).map((validator): FieldValidator => ({
+      rule: field(validator, "rule") as FieldValidator["rule"],
+      value: validator.value === undefined ? undefined : Number(validator.value),
+      message: optionalText(validator, "message"),
+    }))
+    : undefined;
+
+  return {
+    id: field(body, "id"),
+    type: (type in FIELD_TYPE_LABELS ? type : "") as FieldType,
+    label: field(body, "label"),
+    required: body.required === true,
+    requiredMessage: optionalText(body, "requiredMessage"),
+    placeholder: optionalText(body, "placeholder"),
+    helpText: optionalText(body, "helpText"),
+    options: type === "select" || type === "multi-select" ? options ?? [] : undefined,
+    validators: validators?.filter((validator) => ["ritEmail", "minLength", "maxLength"].includes(validator.rule)),
+    section: optionalText(body, "section"),
+  };
+};
+
+// Public: the questions the sign up form should ask. Defaults to the request's cohort.
+formSchemas.get("/:kind", async (c) => {
+  const kind = c.req.param("kind");
+  if (!isSignupFormKind(kind)) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const semester = c.req.query("semester") ?? currentCohort().name;
+  if (!isSemester(semester)) {
+    return c.json({ error: "semester must look like \"Fall 2025\"" }, 400);
+  }
+
+  try {
+    return c.json({ schema: await loadFormSchema(kind, semester) });
+  } catch (err) {
+    console.log(`Error loading ${kind} form schema: ${err}`);
+    return c.json({ error: "Could not load the sign up questions" }, 500);
+  }
+});
+
+formSchemas.put("/:kind", requireOfficer("officer"), async (c) => {
+  const kind = c.req.param("kind");
+  if (!isSignupFormKind(kind)) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const fields = Array.isArray(body.fields)
+    ? enforceLockedFields(kind, body.fields.map((item: unknown) => toFormField(isRecord(item) ? item : {})))
+    : [];
+  const schema: FormSchema = {
+    semester: field(body, "semester"),
+    fields,
+    updatedAt: new Date().toISOString(),
+    updatedBy: c.get("officer").email,
+  };
+
+  const errors = validateFormSchema(kind, schema);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    await kv.set(schemaKey(schema.semester, kind), schema);
+    console.log(`${schema.updatedBy} updated the ${schema.semester} ${kind} sign up questions`);
+    return c.json({ schema });
+  } catch (err) {
+    console.log(`Error saving ${kind} form schema: ${err}`);
+    return c.json({ error: "Could not save the sign up questions" }, 500);
+  }
+});
+
+export default formSchemas;
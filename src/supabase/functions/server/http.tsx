@@ -0,0 +1,22 @@
+// Request helpers shared by the route modules
+import type { Context } from "npm:hono";
+import { FILL_TIME_FIELD, HONEYPOT_FIELD, MIN_FILL_MS } from "../../../utils/apiContract.ts";
+
+// Parse a JSON request body, returning null when it is missing or malformed
+export const readJsonBody = async (c: Context): Promise<Record<string, unknown> | null> => {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+// Read a trimmed string field from an untrusted request body
+export const field = (body: Record<string, unknown>, key: string): string =>
+  String(body[key] ?? "").trim();
+
+// The sign up forms' bot checks (see apiContract.ts): the honeypot must be empty and the
+// form must have been open long enough for a person to fill it in
+export const looksAutomated = (body: Record<string, unknown>): boolean =>
+  field(body, HONEYPOT_FIELD) !== "" || !(Number(body[FILL_TIME_FIELD]) >= MIN_FILL_MS);
@@ -1,7 +1,35 @@
 import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import * as kv from "./kv_store.tsx";
+import * as kv from "./cohortStore.tsx";
+import { validateEmail } from "../../../utils/formValidation.ts";
+import { FUNCTION_NAME, type BallotInfo, type BallotRecord, type MatchRecord, type MatchRun } from "../../../utils/apiContract.ts";
+import { isBeforeDeadline } from "../../../utils/cohortSchema.ts";
+import { runMatching, toMatchableMentee, toMatchableMentor, type Rankings } from "./matching.tsx";
+import { requireOfficer, sendMagicLink } from "./auth.tsx";
+import { readJsonBody, field, looksAutomated } from "./http.tsx";
+import { rateLimit } from "./rateLimit.tsx";
+import {
+  findSignupsByEmail,
+  isSignupKind,
+  listVerifiedSignups,
+  pendingExpiry,
+  sendVerificationCode,
+  verifyCode,
+  type SignupKind,
+  type Verifiable,
+} from "./verification.tsx";
+import { parseSignupForm } from "./signups.tsx";
+import { signupRepositories } from "./repositories.tsx";
+import admin from "./admin.tsx";
+import events, { calendarFeed } from "./events.tsx";
+import points from "./points.tsx";
+import families from "./families.tsx";
+import portal, { requirePortalSession } from "./portal.tsx";
+import formSchemas from "./formSchemas.tsx";
+import cohorts, { currentCohort, withCohort } from "./cohorts.tsx";
+import { kvStoreKind } from "./kvStores.tsx";
+import { seedLocalStore } from "./seed.tsx";
 const app = new Hono();
 
 // Enable logger
@@ -12,16 +40,378 @@ app.use(
   "/*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
+    allowHeaders: ["Content-Type", "Authorization", "X-Portal-Session", "X-Cohort"],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    exposeHeaders: ["Content-Length"],
+    exposeHeaders: ["Content-Length", "Retry-After"],
     maxAge: 600,
   }),
 );
 
 // Health check endpoint
-app.get("/make-server-27ad6e68/health", (c) => {
+app.get(`/${FUNCTION_NAME}/health`, (c) => {
   return c.json({ status: "ok" });
 });
 
-Deno.serve(app.fetch);
\ No newline at end of file
+// Cohort registry and switching; these routes work across cohorts
+app.route(`/${FUNCTION_NAME}/cohorts`, cohorts);
+
+// Every route below reads and writes the request's cohort
+app.use(`/${FUNCTION_NAME}/*`, withCohort);
+
+// Mail a verification code, reporting failure instead of throwing so the sign up
+// is still saved and the student can ask for the code again
+const trySendCode = async (kind: SignupKind, record: Verifiable) => {
+  try {
+    await sendVerificationCode(kind, record);
+    return true;
+  } catch (err) {
+    console.log(`Error sending ${kind} verification code: ${err}`);
+    return false;
+  }
+};
+
+// Limits for the public routes that write (see rateLimit.tsx)
+const signupLimit = rateLimit("signup", { windowMinutes: 60, perIp: 30, perEmail: 5 });
+const verifyLimit = rateLimit("verify", { windowMinutes: 15, perIp: 30 });
+const resendLimit = rateLimit("resend", { windowMinutes: 60, perIp: 20 });
+const ballotLimit = rateLimit("ballot", { windowMinutes: 60, perIp: 60 });
+const magicLinkLimit = rateLimit("magic-link", { windowMinutes: 60, perIp: 20, perEmail: 3 });
+
+// Shown when the honeypot is filled in or the form was submitted too quickly
+const AUTOMATED_MESSAGE = "That was quicker than we expected. Please check your answers and submit again.";
+
+// Mentor sign up endpoint
+app.post(`/${FUNCTION_NAME}/mentors`, signupLimit, async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+  if (looksAutomated(body)) {
+    console.log("Turned away a mentor sign up that looked automated");
+    return c.json({ error: AUTOMATED_MESSAGE }, 400);
+  }
+
+  try {
+    const { formData, errors } = await parseSignupForm("mentor", body);
+    if (Object.keys(errors).length > 0) {
+      return c.json({ error: "Validation failed", errors }, 400);
+    }
+
+    const id = crypto.randomUUID();
+    const mentor = await signupRepositories.mentor.create(id, {
+      ...formData,
+      id,
+      status: "pending",
+      expiresAt: pendingExpiry(),
+      createdAt: new Date().toISOString(),
+    });
+
+    return c.json({ mentor, codeSent: await trySendCode("mentor", mentor) }, 201);
+  } catch (err) {
+    console.log(`Error storing mentor sign up: ${err}`);
+    return c.json({ error: "Could not save your sign up. Please try again." }, 500);
+  }
+});
+
+// Mentee sign up endpoint
+app.post(`/${FUNCTION_NAME}/mentees`, signupLimit, async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+  if (looksAutomated(body)) {
+    console.log("Turned away a mentee sign up that looked automated");
+    return c.json({ error: AUTOMATED_MESSAGE }, 400);
+  }
+
+  try {
+    const { formData, errors } = await parseSignupForm("mentee", body);
+    if (Object.keys(errors).length > 0) {
+      return c.json({ error: "Validation failed", errors }, 400);
+    }
+
+    const id = crypto.randomUUID();
+    const mentee = await signupRepositories.mentee.create(id, {
+      ...formData,
+      id,
+      status: "pending",
+      expiresAt: pendingExpiry(),
+      createdAt: new Date().toISOString(),
+    });
+
+    return c.json({ mentee, codeSent: await trySendCode("mentee", mentee) }, 201);
+  } catch (err) {
+    console.log(`Error storing mentee sign up: ${err}`);
+    return c.json({ error: "Could not save your sign up. Please try again." }, 500);
+  }
+});
+
+// Confirm a sign up with the code mailed to the student
+app.post(`/${FUNCTION_NAME}/verify`, verifyLimit, async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const kind = field(body, "kind");
+  const id = field(body, "id");
+  const code = field(body, "code");
+  if (!isSignupKind(kind) || !id) {
+    return c.json({ error: "kind and id are required" }, 400);
+  }
+  if (!/^\d{6}$/.test(code)) {
+    return c.json({ error: "Validation failed", errors: { code: "Enter the 6 digit code from your email" } }, 400);
+  }
+
+  try {
+    const outcome = await verifyCode(kind, id, code);
+    switch (outcome) {
+      case "verified":
+        return c.json({ status: "verified" });
+      case "invalid":
+        return c.json({ error: "Validation failed", errors: { code: "That code doesn't match. Please try again." } }, 400);
+      case "locked":
+        return c.json({ error: "Too many incorrect codes. Please sign up again." }, 429);
+      case "expired":
+        return c.json({ error: "This code has expired. Please sign up again." }, 410);
+    }
+  } catch (err) {
+    console.log(`Error verifying ${kind} ${id}: ${err}`);
+    return c.json({ error: "Could not verify your email. Please try again." }, 500);
+  }
+});
+
+// Send a new verification code for a pending sign up
+app.post(`/${FUNCTION_NAME}/verify/resend`, resendLimit, async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const kind = field(body, "kind");
+  const id = field(body, "id");
+  if (!isSignupKind(kind) || !id) {
+    return c.json({ error: "kind and id are required" }, 400);
+  }
+
+  try {
+    const record = await signupRepositories[kind].get(id);
+    if (!record || (record.expiresAt && Date.parse(record.expiresAt) < Date.now())) {
+      return c.json({ error: "This sign up has expired. Please sign up again." }, 410);
+    }
+    if (record.status !== "pending") {
+      return c.json({ status: record.status ?? "verified" });
+    }
+
+    if ((await sendVerificationCode(kind, record)) === "limited") {
+      return c.json({ error: "We've already sent this sign up as many codes as we can. Please sign up again." }, 429);
+    }
+    return c.json({ status: "pending" });
+  } catch (err) {
+    console.log(`Error resending ${kind} verification code: ${err}`);
+    return c.json({ error: "Could not send a new code. Please try again." }, 500);
+  }
+});
+
+// Look up a verified mentor or mentee sign up through the email index, along with everyone of
+// the other kind, who are the people they can rank
+const findParticipant = async (email: string) => {
+  for (const [role, other] of [["mentor", "mentee"], ["mentee", "mentor"]] as const) {
+    const record = (await findSignupsByEmail(role, email)).find((signup) => signup.status !== "pending");
+    if (record) return { role, record, others: await listVerifiedSignups(other) };
+  }
+  return null;
+};
+
+const isBallotOpen = () => isBeforeDeadline(currentCohort().ballotDeadline);
+
+// People a participant can rank on their Speed Dating ballot, plus any ballot already submitted
+app.get(`/${FUNCTION_NAME}/ballots/candidates`, requirePortalSession, async (c) => {
+  const email = c.get("email");
+
+  try {
+    const participant = await findParticipant(email);
+    if (!participant) {
+      return c.json({ error: "Validation failed", errors: { email: "We couldn't find a mentor or mentee sign up for this email" } }, 404);
+    }
+
+    const ballot = await kv.get<BallotRecord>(`ballot:${email}`);
+    return c.json<BallotInfo>({
+      role: participant.role,
+      deadline: currentCohort().ballotDeadline,
+      open: isBallotOpen(),
+      // Names and majors only; emails stay private
+      candidates: participant.others.map((record) => ({
+        id: record.id,
+        name: String(record.name ?? ""),
+        major: String(record.major ?? ""),
+      })),
+      rankings: ballot?.rankings ?? [],
+    });
+  } catch (err) {
+    console.log(`Error loading ballot candidates: ${err}`);
+    return c.json({ error: "Could not load the ballot" }, 500);
+  }
+});
+
+// Submit or replace a Speed Dating preference ballot
+app.post(`/${FUNCTION_NAME}/ballots`, ballotLimit, requirePortalSession, async (c) => {
+  if (!isBallotOpen()) {
+    return c.json({ error: "The Speed Dating ballot has closed" }, 403);
+  }
+
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const email = c.get("email");
+  const rankings = Array.isArray(body.rankings) ? body.rankings.map(String) : [];
+  if (rankings.length === 0) {
+    return c.json({ error: "Validation failed", errors: { rankings: "Please rank at least one person you met" } }, 400);
+  }
+  if (new Set(rankings).size !== rankings.length) {
+    return c.json({ error: "Validation failed", errors: { rankings: "Each person can only be ranked once" } }, 400);
+  }
+
+  try {
+    const participant = await findParticipant(email);
+    if (!participant) {
+      return c.json({ error: "Validation failed", errors: { email: "We couldn't find a mentor or mentee sign up for this email" } }, 404);
+    }
+
+    const candidateIds = new Set(participant.others.map((record) => record.id));
+    if (rankings.some((id) => !candidateIds.has(id))) {
+      return c.json({ error: "Validation failed", errors: { rankings: "Your ballot includes someone who isn't in the program" } }, 400);
+    }
+
+    const ballot: BallotRecord = {
+      email,
+      role: participant.role,
+      participantId: participant.record.id,
+      rankings,
+      submittedAt: new Date().toISOString(),
+    };
+    await kv.set(`ballot:${email}`, ballot);
+
+    return c.json({ ballot }, 201);
+  } catch (err) {
+    console.log(`Error storing ballot: ${err}`);
+    return c.json({ error: "Could not save your ballot. Please try again." }, 500);
+  }
+});
+
+// Run the matching engine over every stored sign up and save the proposal for officer review
+app.post(`/${FUNCTION_NAME}/matches/run`, requireOfficer("eboard"), async (c) => {
+  const body = (await readJsonBody(c)) ?? {};
+
+  let capacity: number | undefined;
+  if (body.capacity !== undefined) {
+    capacity = Number(body.capacity);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      return c.json({ error: "capacity must be a positive whole number" }, 400);
+    }
+  }
+
+  try {
+    const [mentors, mentees, previous, ballots] = await Promise.all([
+      listVerifiedSignups("mentor"),
+      listVerifiedSignups("mentee"),
+      kv.getByPrefix<MatchRecord>("match:"),
+      kv.getByPrefix<BallotRecord>("ballot:"),
+    ]);
+
+    // Speed Dating ballots are the strongest matching signal
+    const rankings: Rankings = { mentors: new Map(), mentees: new Map() };
+    for (const ballot of ballots) {
+      const side = ballot.role === "mentor" ? rankings.mentors : rankings.mentees;
+      side.set(ballot.participantId, ballot.rankings);
+    }
+
+    const result = runMatching(mentors.map(toMatchableMentor), mentees.map(toMatchableMentee), {
+      capacity,
+      rankings,
+    });
+    const runId = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+
+    const matches = result.matches.map((pair): MatchRecord => ({
+      id: `${pair.mentorId}:${pair.menteeId}`,
+      ...pair,
+      status: "proposed",
+      runId,
+      createdAt,
+    }));
+
+    // A new run replaces the previous proposal
+    if (previous.length > 0) {
+      await kv.mdel(previous.map((match) => `match:${match.id}`));
+    }
+    if (matches.length > 0) {
+      await kv.mset(matches.map((match) => `match:${match.id}`), matches);
+    }
+
+    const run: MatchRun = {
+      id: runId,
+      createdAt,
+      capacity: result.capacity,
+      matchCount: matches.length,
+      unmatchedMenteeIds: result.unmatchedMenteeIds,
+    };
+    await kv.set("match-run:latest", run);
+
+    return c.json({ run, matches }, 201);
+  } catch (err) {
+    console.log(`Error running matching: ${err}`);
+    return c.json({ error: "Could not run matching" }, 500);
+  }
+});
+
+// Officer sign in: emails a magic link to allow-listed addresses. The response is the
+// same either way so the allow-list can't be probed.
+app.post(`/${FUNCTION_NAME}/auth/magic-link`, magicLinkLimit, async (c) => {
+  const body = await readJsonBody(c);
+  const email = body ? field(body, "email").toLowerCase() : "";
+  if (!validateEmail(email)) {
+    return c.json({ error: "Validation failed", errors: { email: "Please enter a valid RIT email address (@rit.edu)" } }, 400);
+  }
+
+  const siteUrl = Deno.env.get("SITE_URL") ?? c.req.header("Origin") ?? "";
+
+  try {
+    await sendMagicLink(email, `${siteUrl}/admin`);
+  } catch (err) {
+    console.log(`Error sending magic link: ${err}`);
+    return c.json({ error: "Could not send a sign in link. Please try again." }, 500);
+  }
+
+  return c.json({ message: "If that address is on the officer list, a sign in link is on its way." });
+});
+
+// Student self-service for their own sign ups
+app.route(`/${FUNCTION_NAME}/my-signup`, portal);
+
+// Officer dashboard data
+app.route(`/${FUNCTION_NAME}/admin`, admin);
+
+// Event store
+app.get(`/${FUNCTION_NAME}/events.ics`, calendarFeed);
+app.route(`/${FUNCTION_NAME}/events`, events);
+
+// Member points and leaderboard
+app.route(`/${FUNCTION_NAME}/points`, points);
+
+// Mentor families
+app.route(`/${FUNCTION_NAME}/families`, families);
+
+// Sign up questions per semester
+app.route(`/${FUNCTION_NAME}/form-schema`, formSchemas);
+
+// A memory store starts empty on every run, so load the local fixtures first
+if (kvStoreKind() === "memory") {
+  await seedLocalStore();
+}
+
+// Run locally, the server listens on PORT (8000 when unset); Supabase picks its own
+const port = Deno.env.get("PORT");
+Deno.serve(port ? { port: Number(port) } : {}, app.fetch);
\ No newline at end of file
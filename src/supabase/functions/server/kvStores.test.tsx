@@ -0,0 +1,97 @@
+// Run with: deno test --no-check --allow-env src/supabase/functions/server
+// (--no-check because the generated kv_store.tsx doesn't pass strict type checking)
+import assert from "node:assert/strict";
+import { memoryKvStore, scopedKvStore, sqliteKvStore } from "./kvStores.tsx";
+
+Deno.test("memoryKvStore reads back copies of what was written", async () => {
+  const store = memoryKvStore();
+  const value = { name: "Sarah", tags: ["dance"] };
+  await store.set("mentor:1", value);
+  value.tags.push("cooking");
+
+  const stored = (await store.get("mentor:1")) as typeof value;
+  assert.deepEqual(stored, { name: "Sarah", tags: ["dance"] });
+  stored.tags.push("photography");
+  assert.deepEqual(await store.get("mentor:1"), { name: "Sarah", tags: ["dance"] });
+  assert.equal(await store.get("mentor:2"), null);
+});
+
+Deno.test("memoryKvStore mget and mdel skip missing keys", async () => {
+  const store = memoryKvStore({ a: 1, b: 2 });
+  assert.deepEqual(await store.mget(["a", "missing", "b"]), [{ key: "a", value: 1 }, { key: "b", value: 2 }]);
+
+  await store.mdel(["a", "missing"]);
+  assert.deepEqual(await store.mget(["a", "b"]), [{ key: "b", value: 2 }]);
+});
+
+Deno.test("memoryKvStore pages prefix reads in key order", async () => {
+  const store = memoryKvStore({ "event:3": 3, "event:1": 1, "events:seeded": true, "event:2": 2 });
+
+  const all = await store.getByPrefix("event:");
+  assert.deepEqual(all.map((entry) => entry.key), ["event:1", "event:2", "event:3"]);
+
+  const first = await store.getByPrefix("event:", { limit: 2 });
+  assert.deepEqual(first.map((entry) => entry.value), [1, 2]);
+  const rest = await store.getByPrefix("event:", { after: first[1].key, limit: 2 });
+  assert.deepEqual(rest.map((entry) => entry.value), [3]);
+});
+
+Deno.test("memoryKvStore compareAndSet only writes over the expected version", async () => {
+  const store = memoryKvStore({ legacy: { name: "from before versioning" } });
+
+  assert.equal(await store.compareAndSet("new", 0, { version: 1 }), true);
+  assert.equal(await store.compareAndSet("new", 0, { version: 1 }), false);
+  assert.equal(await store.compareAndSet("new", 2, { version: 3 }), false);
+  assert.equal(await store.compareAndSet("new", 1, { version: 2 }), true);
+  assert.deepEqual(await store.get("new"), { version: 2 });
+
+  // Records without a version count as version 0
+  assert.equal(await store.compareAndSet("legacy", 0, { name: "updated", version: 1 }), true);
+});
+
+Deno.test("sqliteKvStore pages case-sensitive prefix reads in key order", async () => {
+  const store = sqliteKvStore(":memory:");
+  await store.mset([
+    { key: "rsvp:2:b@rit.edu", value: 2 },
+    { key: "rsvp:1:a@rit.edu", value: 1 },
+    { key: "RSVP:1:x@rit.edu", value: "other" },
+    { key: "rsvp:1:c@rit.edu", value: 3 },
+  ]);
+
+  const first = await store.getByPrefix("rsvp:", { limit: 2 });
+  assert.deepEqual(first.map((entry) => entry.key), ["rsvp:1:a@rit.edu", "rsvp:1:c@rit.edu"]);
+  const rest = await store.getByPrefix("rsvp:", { after: first[1].key });
+  assert.deepEqual(rest, [{ key: "rsvp:2:b@rit.edu", value: 2 }]);
+
+  await store.mdel(["rsvp:1:a@rit.edu", "rsvp:1:c@rit.edu"]);
+  assert.deepEqual(await store.mget(["rsvp:1:a@rit.edu", "rsvp:2:b@rit.edu"]), [{ key: "rsvp:2:b@rit.edu", value: 2 }]);
+});
+
+Deno.test("sqliteKvStore compareAndSet only writes over the expected version", async () => {
+  const store = sqliteKvStore(":memory:");
+  await store.set("legacy", { name: "from before versioning" });
+
+  assert.equal(await store.compareAndSet("new", 0, { version: 1 }), true);
+  assert.equal(await store.compareAndSet("new", 0, { version: 1 }), false);
+  assert.equal(await store.compareAndSet("new", 2, { version: 3 }), false);
+  assert.equal(await store.compareAndSet("new", 1, { version: 2 }), true);
+  assert.deepEqual(await store.get("new"), { version: 2 });
+  assert.equal(await store.compareAndSet("legacy", 0, { name: "updated", version: 1 }), true);
+});
+
+Deno.test("scopedKvStore prefixes keys on the way in and strips them on the way out", async () => {
+  const store = memoryKvStore({ "event:1": "fall" });
+  const spring = scopedKvStore(store, "cohort/spring-2026/");
+
+  await spring.set("event:1", "spring");
+  assert.equal(await store.get("event:1"), "fall");
+  assert.equal(await store.get("cohort/spring-2026/event:1"), "spring");
+
+  await spring.mset([{ key: "event:2", value: "second" }]);
+  const page = await spring.getByPrefix("event:", { after: "event:1" });
+  assert.deepEqual(page, [{ key: "event:2", value: "second" }]);
+  assert.equal(await spring.compareAndSet("event:3", 0, { version: 1 }), true);
+  assert.deepEqual(await store.get("cohort/spring-2026/event:3"), { version: 1 });
+
+  assert.equal(scopedKvStore(store, ""), store);
+});
@@ -0,0 +1,287 @@
+// Storage behind the typed repositories in repository.tsx
+// Unlike kv_store.tsx, prefix reads return the keys they matched in key order and can be
+// paged, and a write can be made conditional on the stored record's `version`.
+// KV_STORE picks where records live, so the server can run without a Supabase project:
+//   supabase (default) - the kv_store_27ad6e68 table, using SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+//   sqlite             - a local database file, KV_SQLITE_FILE (default ./kv.sqlite)
+//   memory             - this process only; index.tsx loads the seed fixtures at startup
+import type { DatabaseSync } from "node:sqlite";
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import * as kv from "./kv_store.tsx";
+
+export interface KvEntry<T = unknown> {
+  key: string;
+  value: T;
+}
+
+export interface ScanOptions {
+  after?: string; // Only keys that sort after this one
+  limit?: number;
+}
+
+export interface KvStore {
+  get(key: string): Promise<unknown | null>;
+  mget(keys: string[]): Promise<KvEntry[]>;
+  getByPrefix(prefix: string, options?: ScanOptions): Promise<KvEntry[]>;
+  set(key: string, value: unknown): Promise<void>;
+  mset(entries: KvEntry[]): Promise<void>;
+  // Write only when the stored value's `version` is expectedVersion, where 0 means the key is
+  // missing or holds a record from before versioning. Resolves false when it didn't match.
+  compareAndSet(key: string, expectedVersion: number, value: unknown): Promise<boolean>;
+  del(key: string): Promise<void>;
+  mdel(keys: string[]): Promise<void>;
+}
+
+const TABLE = "kv_store_27ad6e68";
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+// LIKE treats % and _ as wildcards, and both can appear in emails
+const likePrefix = (prefix: string) => `${prefix.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+// Postgres error for a duplicate primary key
+const UNIQUE_VIOLATION = "23505";
+
+export const supabaseKvStore: KvStore = {
+  get: kv.get,
+  set: kv.set,
+  del: kv.del,
+  mset: async (entries) => {
+    if (entries.length === 0) return;
+    await kv.mset(entries.map((entry) => entry.key), entries.map((entry) => entry.value));
+  },
+  mdel: async (keys) => {
+    if (keys.length === 0) return;
+    await kv.mdel(keys);
+  },
+  mget: async (keys) => {
+    if (keys.length === 0) return [];
+    const { data, error } = await client().from(TABLE).select("key, value").in("key", keys);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data;
+  },
+  getByPrefix: async (prefix, { after, limit } = {}) => {
+    let query = client().from(TABLE).select("key, value").like("key", likePrefix(prefix)).order("key");
+    if (after) query = query.gt("key", after);
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data;
+  },
+  compareAndSet: async (key, expectedVersion, value) => {
+    const db = client();
+    if (expectedVersion === 0) {
+      const { error } = await db.from(TABLE).insert({ key, value });
+      if (!error) return true;
+      if (error.code !== UNIQUE_VIOLATION) {
+        throw new Error(error.message);
+      }
+      // The key exists, which still matches if its record predates versioning
+    }
+
+    let query = db.from(TABLE).update({ value }).eq("key", key);
+    query = expectedVersion === 0 ? query.is("value->version", null) : query.eq("value->version", expectedVersion);
+
+    const { data, error } = await query.select("key");
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data.length > 0;
+  },
+};
+
+// Values are copied in and out, as if they had been through JSON storage
+const copy = <T,>(value: T): T => structuredClone(value);
+
+// Same behaviour as supabaseKvStore without a database, for tests and local runs
+export const memoryKvStore = (initial: Record<string, unknown> = {}): KvStore => {
+  const data = new Map(Object.entries(copy(initial)));
+
+  return {
+    get: async (key) => data.has(key) ? copy(data.get(key)) : null,
+    set: async (key, value) => {
+      data.set(key, copy(value));
+    },
+    del: async (key) => {
+      data.delete(key);
+    },
+    mget: async (keys) =>
+      keys.filter((key) => data.has(key)).map((key) => ({ key, value: copy(data.get(key)) })),
+    mset: async (entries) => {
+      for (const { key, value } of entries) data.set(key, copy(value));
+    },
+    mdel: async (keys) => {
+      for (const key of keys) data.delete(key);
+    },
+    getByPrefix: async (prefix, { after, limit } = {}) => {
+      const keys = [...data.keys()]
+        .filter((key) => key.startsWith(prefix) && (!after || key > after))
+        .sort();
+      return keys.slice(0, limit ?? keys.length).map((key) => ({ key, value: copy(data.get(key)) }));
+    },
+    compareAndSet: async (key, expectedVersion, value) => {
+      const stored = data.get(key) as { version?: number } | undefined;
+      if ((stored?.version ?? 0) !== expectedVersion) return false;
+      data.set(key, copy(value));
+      return true;
+    },
+  };
+};
+
+// Keeps the same table shape as Supabase: one row per key with the value as JSON text.
+// node:sqlite is only loaded when this store is picked, since the hosted runtime doesn't need it.
+export const sqliteKvStore = (path: string): KvStore => {
+  let opened: Promise<DatabaseSync> | undefined;
+  const db = () => opened ??= (async () => {
+    const { DatabaseSync } = await import("node:sqlite");
+    const database = new DatabaseSync(path);
+    database.exec("CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL)");
+    return database;
+  })();
+
+  const toEntry = (row: Record<string, unknown>): KvEntry => ({
+    key: row.key as string,
+    value: JSON.parse(row.value as string),
+  });
+
+  // Runs the statements as one transaction, like the single upsert or delete Supabase makes
+  const batch = async (run: (database: DatabaseSync) => void) => {
+    const database = await db();
+    database.exec("BEGIN");
+    try {
+      run(database);
+      database.exec("COMMIT");
+    } catch (err) {
+      database.exec("ROLLBACK");
+      throw err;
+    }
+  };
+
+  const upsert = "INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value";
+
+  return {
+    get: async (key) => {
+      const row = (await db()).prepare("SELECT value FROM kv WHERE key = ?").get(key);
+      return row ? JSON.parse(row.value as string) : null;
+    },
+    set: async (key, value) => {
+      (await db()).prepare(upsert).run(key, JSON.stringify(value));
+    },
+    del: async (key) => {
+      (await db()).prepare("DELETE FROM kv WHERE key = ?").run(key);
+    },
+    mget: async (keys) => {
+      if (keys.length === 0) return [];
+      const rows = (await db())
+        .prepare(`SELECT key, value FROM kv WHERE key IN (${keys.map(() => "?").join(", ")})`)
+        .all(...keys);
+      return rows.map(toEntry);
+    },
+    mset: (entries) => batch((database) => {
+      const statement = database.prepare(upsert);
+      for (const { key, value } of entries) statement.run(key, JSON.stringify(value));
+    }),
+    mdel: (keys) => batch((database) => {
+      const statement = database.prepare("DELETE FROM kv WHERE key = ?");
+      for (const key of keys) statement.run(key);
+    }),
+    // SQLite's LIKE ignores case, so prefixes are compared with substr instead
+    getByPrefix: async (prefix, { after, limit } = {}) => {
+      const rows = (await db())
+        .prepare(
+          "SELECT key, value FROM kv WHERE substr(key, 1, length(?1)) = ?1 AND key > ?2 ORDER BY key LIMIT ?3",
+        )
+        .all(prefix, after ?? "", limit ?? -1);
+      return rows.map(toEntry);
+    },
+    compareAndSet: async (key, expectedVersion, value) => {
+      const database = await db();
+      const json = JSON.stringify(value);
+      if (expectedVersion === 0) {
+        const inserted = database.prepare("INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT (key) DO NOTHING")
+          .run(key, json);
+        if (inserted.changes > 0) return true;
+        // The key exists, which still matches if its record predates versioning
+      }
+
+      const updated = database
+        .prepare(
+          expectedVersion === 0
+            ? "UPDATE kv SET value = ?1 WHERE key = ?2 AND json_extract(value, '$.version') IS NULL"
+            : "UPDATE kv SET value = ?1 WHERE key = ?2 AND json_extract(value, '$.version') = ?3",
+        )
+        .run(...(expectedVersion === 0 ? [json, key] : [json, key, expectedVersion]));
+      return updated.changes > 0;
+    },
+  };
+};
+
+// A view of a store in which every key is prefixed, e.g. with a cohort's `cohort/<id>/`
+export const scopedKvStore = (store: KvStore, prefix: string): KvStore => {
+  if (!prefix) return store;
+
+  const scoped = (key: string) => `${prefix}${key}`;
+  const unscoped = (entries: KvEntry[]) =>
+    entries.map((entry) => ({ key: entry.key.slice(prefix.length), value: entry.value }));
+
+  return {
+    get: (key) => store.get(scoped(key)),
+    set: (key, value) => store.set(scoped(key), value),
+    del: (key) => store.del(scoped(key)),
+    mget: async (keys) => unscoped(await store.mget(keys.map(scoped))),
+    mset: (entries) => store.mset(entries.map((entry) => ({ key: scoped(entry.key), value: entry.value }))),
+    mdel: (keys) => store.mdel(keys.map(scoped)),
+    getByPrefix: async (keyPrefix, options = {}) =>
+      unscoped(await store.getByPrefix(scoped(keyPrefix), {
+        ...options,
+        after: options.after === undefined ? undefined : scoped(options.after),
+      })),
+    compareAndSet: (key, expectedVersion, value) => store.compareAndSet(scoped(key), expectedVersion, value),
+  };
+};
+
+export const kvStoreKind = () => Deno.env.get("KV_STORE") ?? "supabase";
+
+const storeFromEnv = (): KvStore => {
+  switch (kvStoreKind()) {
+    case "supabase":
+      return supabaseKvStore;
+    case "sqlite":
+      return sqliteKvStore(Deno.env.get("KV_SQLITE_FILE") ?? "./kv.sqlite");
+    case "memory":
+      return memoryKvStore();
+    default:
+      throw new Error(`Unknown KV_STORE ${kvStoreKind()}, expected supabase, sqlite or memory`);
+  }
+};
+
+let activeStore: KvStore = storeFromEnv();
+
+// The store every module reads and writes; tests swap in memoryKvStore()
+export const getKvStore = () => activeStore;
+
+export const setKvStore = (store: KvStore) => {
+  activeStore = store;
+};
+
+// The kv_store.tsx functions over a store, so modules can switch to it without other changes.
+// Values come back as the caller's record type; the store itself doesn't check them.
+export const kvFunctions = (store: () => KvStore) => ({
+  set: (key: string, value: unknown) => store().set(key, value),
+  get: <T = unknown>(key: string) => store().get(key) as Promise<T | null>,
+  del: (key: string) => store().del(key),
+  mset: (keys: string[], values: unknown[]) =>
+    store().mset(keys.map((key, index) => ({ key, value: values[index] }))),
+  mget: async <T = unknown>(keys: string[]) => (await store().mget(keys)).map((entry) => entry.value as T),
+  mdel: (keys: string[]) => store().mdel(keys),
+  getByPrefix: async <T = unknown>(prefix: string) =>
+    (await store().getByPrefix(prefix)).map((entry) => entry.value as T),
+});
@@ -0,0 +1,70 @@
+// Outgoing email
+// The transport is picked by MAIL_TRANSPORT so verification codes can be read
+// from the console or a local file when working offline:
+//   console - log each message (the default with a local KV_STORE, see kvStores.tsx)
+//   file    - append each message to MAIL_FILE (default ./outbox.log)
+//   resend  - send through the Resend API using RESEND_API_KEY and MAIL_FROM
+// A deployed function has to name one; otherwise codes would only reach the logs.
+import { kvStoreKind } from "./kvStores.tsx";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const formatMessage = (message: MailMessage) =>
+  `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toISOString()}\n\n${message.text}\n`;
+
+export const consoleTransport: MailTransport = {
+  send: async (message) => {
+    console.log(`--- outgoing mail ---\n${formatMessage(message)}---------------------`);
+  },
+};
+
+export const fileTransport = (path: string): MailTransport => ({
+  send: async (message) => {
+    await Deno.writeTextFile(path, `${formatMessage(message)}\n`, { append: true });
+  },
+});
+
+export const resendTransport = (apiKey: string, from: string): MailTransport => ({
+  send: async (message) => {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text }),
+    });
+    if (!response.ok) {
+      throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+    }
+  },
+});
+
+export const mailTransport = (): MailTransport => {
+  switch (Deno.env.get("MAIL_TRANSPORT")) {
+    case "file":
+      return fileTransport(Deno.env.get("MAIL_FILE") ?? "./outbox.log");
+    case "resend":
+      return resendTransport(
+        Deno.env.get("RESEND_API_KEY")!,
+        Deno.env.get("MAIL_FROM")!,
+      );
+    case "console":
+      return consoleTransport;
+    case undefined:
+      if (kvStoreKind() !== "supabase") return consoleTransport;
+      throw new Error("MAIL_TRANSPORT is not set, so no mail can be sent");
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT ${Deno.env.get("MAIL_TRANSPORT")}`);
+  }
+};
+
+export const sendMail = (message: MailMessage) => mailTransport().send(message);
@@ -0,0 +1,261 @@
+// Mentor/mentee matching engine
+// Scores every mentor–mentee pair on shared major, year gap, hobbies, goals, shared
+// free time and Speed Dating ballot rankings, then runs mentee-proposing deferred acceptance
+// (Gale–Shapley with per-mentor capacity) so no mentor and mentee would both
+// rather be paired with each other.
+
+import { YEAR_OPTIONS } from "../../../constants/formConstants.ts";
+import { parseAvailability, sharedHours } from "../../../utils/availability.ts";
+
+export interface MatchableMentor {
+  id: string;
+  major: string;
+  year: string;
+  mentorGoals: string;
+  hobbies: string;
+  availability?: unknown; // Weekly slots; older sign ups may have none
+}
+
+export interface MatchableMentee {
+  id: string;
+  major: string;
+  year: string;
+  helpWanted: string;
+  mentorTraits: string;
+  hobbies: string;
+  availability?: unknown;
+}
+
+export interface ScoredPair {
+  mentorId: string;
+  menteeId: string;
+  score: number;
+  reasons: string[];
+}
+
+// Speed Dating ballots, keyed by the participant's record id, each listing the
+// other side's ids from most to least preferred
+export interface Rankings {
+  mentors: Map<string, string[]>;
+  mentees: Map<string, string[]>;
+}
+
+export interface MatchOptions {
+  // Maximum mentees per mentor; defaults to an even split of mentees across mentors
+  capacity?: number;
+  rankings?: Rankings;
+}
+
+export interface MatchResult {
+  capacity: number;
+  matches: ScoredPair[];
+  unmatchedMenteeIds: string[];
+}
+
+// A stored sign up: its id plus the answers to whatever the semester's form asked
+export interface StoredSignup {
+  id: string;
+  [answer: string]: unknown;
+}
+
+const answer = (signup: StoredSignup, field: string) => String(signup[field] ?? "");
+
+// The answers matching reads; questions a semester left out score as blank
+export const toMatchableMentor = (signup: StoredSignup): MatchableMentor => ({
+  id: signup.id,
+  major: answer(signup, "major"),
+  year: answer(signup, "year"),
+  mentorGoals: answer(signup, "mentorGoals"),
+  hobbies: answer(signup, "hobbies"),
+  availability: signup.availability,
+});
+
+export const toMatchableMentee = (signup: StoredSignup): MatchableMentee => ({
+  id: signup.id,
+  major: answer(signup, "major"),
+  year: answer(signup, "year"),
+  helpWanted: answer(signup, "helpWanted"),
+  mentorTraits: answer(signup, "mentorTraits"),
+  hobbies: answer(signup, "hobbies"),
+  availability: signup.availability,
+});
+
+// Words too common to say anything about two people having something in common
+const STOP_WORDS = new Set([
+  "and", "the", "for", "with", "that", "this", "are", "but", "not", "you", "your",
+  "like", "love", "enjoy", "really", "also", "some", "someone", "who", "what", "want",
+  "would", "help", "get", "out", "being", "mentor", "mentee", "about", "things", "from",
+]);
+
+// Lowercase word set used for overlap scoring
+const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word)),
+  );
+
+const sharedWords = (a: Set<string>, b: Set<string>): string[] =>
+  [...a].filter((word) => b.has(word));
+
+const yearIndex = (year: string): number => YEAR_OPTIONS.indexOf(year);
+
+// Points for being someone's first choice at Speed Dating; outweighs every profile signal
+const RANKING_WEIGHT = 6;
+
+// Bonus for appearing in a ballot, scaled so the first choice earns the full weight
+const rankingBonus = (ballot: string[] | undefined, id: string): number => {
+  const position = ballot?.indexOf(id) ?? -1;
+  if (!ballot || position < 0) return 0;
+  return RANKING_WEIGHT * (ballot.length - position) / ballot.length;
+};
+
+// Score how well a mentor fits a mentee; higher is better
+export const scorePair = (
+  mentor: MatchableMentor,
+  mentee: MatchableMentee,
+  rankings?: Rankings,
+): ScoredPair => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  // Same major is the strongest signal for academic help
+  if (mentor.major.trim().toLowerCase() === mentee.major.trim().toLowerCase()) {
+    score += 3;
+    reasons.push("Same major");
+  }
+
+  // Mentors should be further along than their mentees
+  const mentorYear = yearIndex(mentor.year);
+  const menteeYear = yearIndex(mentee.year);
+  if (mentorYear >= 0 && menteeYear >= 0) {
+    if (mentorYear > menteeYear) {
+      score += 2;
+      reasons.push("Mentor is further along");
+    } else if (mentorYear < menteeYear) {
+      score -= 2;
+      reasons.push("Mentor is earlier in school");
+    }
+  }
+
+  // Shared hobbies, capped so one long list doesn't dominate
+  const hobbies = sharedWords(tokenize(mentor.hobbies), tokenize(mentee.hobbies));
+  if (hobbies.length > 0) {
+    score += Math.min(hobbies.length, 3);
+    reasons.push(`Shared hobbies: ${hobbies.join(", ")}`);
+  }
+
+  // What the mentee is looking for vs. what the mentor offers
+  const offered = tokenize(`${mentor.mentorGoals} ${mentor.major} ${mentor.hobbies}`);
+  const wanted = tokenize(`${mentee.helpWanted} ${mentee.mentorTraits}`);
+  const goals = sharedWords(wanted, offered);
+  if (goals.length > 0) {
+    score += Math.min(goals.length * 0.5, 2);
+    reasons.push(`Matching goals: ${goals.join(", ")}`);
+  }
+
+  // Pairs who can never meet are a poor match however well they fit otherwise.
+  // Only judged when both gave their availability.
+  if (parseAvailability(mentor.availability).length > 0 && parseAvailability(mentee.availability).length > 0) {
+    const hours = sharedHours(mentor.availability, mentee.availability);
+    if (hours === 0) {
+      score -= 3;
+      reasons.push("No free time in common");
+    } else {
+      score += Math.min(hours, 4) * 0.5;
+      reasons.push(`${hours} shared free hour${hours === 1 ? "" : "s"} a week`);
+    }
+  }
+
+  // Who liked whom at Speed Dating
+  const mentorBonus = rankingBonus(rankings?.mentors.get(mentor.id), mentee.id);
+  const menteeBonus = rankingBonus(rankings?.mentees.get(mentee.id), mentor.id);
+  if (mentorBonus > 0 && menteeBonus > 0) {
+    reasons.push("Ranked each other at Speed Dating");
+  } else if (mentorBonus > 0) {
+    reasons.push("Mentor ranked mentee at Speed Dating");
+  } else if (menteeBonus > 0) {
+    reasons.push("Mentee ranked mentor at Speed Dating");
+  }
+  score += mentorBonus + menteeBonus;
+
+  return { mentorId: mentor.id, menteeId: mentee.id, score, reasons };
+};
+
+// Produce a stable assignment of mentees to mentors
+export const runMatching = (
+  mentors: MatchableMentor[],
+  mentees: MatchableMentee[],
+  options: MatchOptions = {},
+): MatchResult => {
+  const capacity = options.capacity ??
+    Math.max(1, Math.ceil(mentees.length / Math.max(mentors.length, 1)));
+
+  if (mentors.length === 0) {
+    return { capacity, matches: [], unmatchedMenteeIds: mentees.map((mentee) => mentee.id) };
+  }
+
+  // Score every pair once
+  const scores = new Map<string, ScoredPair>();
+  const pairKey = (mentorId: string, menteeId: string) => `${mentorId}|${menteeId}`;
+  for (const mentor of mentors) {
+    for (const mentee of mentees) {
+      scores.set(pairKey(mentor.id, mentee.id), scorePair(mentor, mentee, options.rankings));
+    }
+  }
+  const scoreOf = (mentorId: string, menteeId: string) =>
+    scores.get(pairKey(mentorId, menteeId))!.score;
+
+  // Each mentee ranks mentors by score, ties broken by id for determinism
+  const preferences = new Map<string, string[]>();
+  for (const mentee of mentees) {
+    preferences.set(
+      mentee.id,
+      mentors
+        .map((mentor) => mentor.id)
+        .sort((a, b) => scoreOf(b, mentee.id) - scoreOf(a, mentee.id) || a.localeCompare(b)),
+    );
+  }
+
+  // Mentors prefer higher-scoring mentees, ties broken by id
+  const mentorPrefers = (mentorId: string, a: string, b: string) =>
+    scoreOf(mentorId, b) - scoreOf(mentorId, a) || a.localeCompare(b);
+
+  const held = new Map<string, string[]>(mentors.map((mentor) => [mentor.id, []]));
+  const nextProposal = new Map<string, number>(mentees.map((mentee) => [mentee.id, 0]));
+  const free = mentees.map((mentee) => mentee.id);
+  const unmatchedMenteeIds: string[] = [];
+
+  while (free.length > 0) {
+    const menteeId = free.shift()!;
+    const ranked = preferences.get(menteeId)!;
+    const index = nextProposal.get(menteeId)!;
+
+    if (index >= ranked.length) {
+      unmatchedMenteeIds.push(menteeId);
+      continue;
+    }
+    nextProposal.set(menteeId, index + 1);
+
+    const mentorId = ranked[index];
+    const accepted = held.get(mentorId)!;
+    accepted.push(menteeId);
+    accepted.sort((a, b) => mentorPrefers(mentorId, a, b));
+
+    // Over capacity: the mentor releases their least preferred mentee
+    if (accepted.length > capacity) {
+      free.push(accepted.pop()!);
+    }
+  }
+
+  const matches: ScoredPair[] = [];
+  for (const [mentorId, menteeIds] of held) {
+    for (const menteeId of menteeIds) {
+      matches.push(scores.get(pairKey(mentorId, menteeId))!);
+    }
+  }
+  matches.sort((a, b) => b.score - a.score);
+
+  return { capacity, matches, unmatchedMenteeIds };
+};
@@ -0,0 +1,169 @@
+// Member points: a public leaderboard plus the officer-managed points table
+// Points are computed on read from check-in attendance, so changing the table
+// re-scores every past event.
+import { Hono } from "npm:hono";
+import * as kv from "./cohortStore.tsx";
+import { EVENT_TYPE_LABELS, type EventType } from "../../../utils/eventSchema.ts";
+import type { AttendanceRecord } from "../../../utils/attendanceSchema.ts";
+import type { MatchRecord } from "../../../utils/apiContract.ts";
+import {
+  DEFAULT_POINTS_CONFIG,
+  validatePointsConfig,
+  type LeaderboardEntry,
+  type PointsConfig,
+} from "../../../utils/pointsSchema.ts";
+import { requireOfficer, type OfficerEnv } from "./auth.tsx";
+import { readJsonBody } from "./http.tsx";
+import { listEvents } from "./events.tsx";
+import { listVerifiedSignups, type Verifiable } from "./verification.tsx";
+
+const points = new Hono<OfficerEnv>();
+
+const CONFIG_KEY = "points:config";
+
+interface Member extends Verifiable {
+  name: string;
+}
+
+export const loadPointsConfig = async (): Promise<PointsConfig> => {
+  const stored = await kv.get<Partial<PointsConfig>>(CONFIG_KEY);
+  if (!stored) return DEFAULT_POINTS_CONFIG;
+
+  // Event types added after the table was saved fall back to their defaults
+  return {
+    perEventType: { ...DEFAULT_POINTS_CONFIG.perEventType, ...stored.perEventType },
+    mentorMenteeBonus: stored.mentorMenteeBonus ?? DEFAULT_POINTS_CONFIG.mentorMenteeBonus,
+  };
+};
+
+const toPointsConfig = (body: Record<string, unknown>): PointsConfig => {
+  const perEventType = (body.perEventType ?? {}) as Record<string, unknown>;
+  const eventTypes = Object.keys(EVENT_TYPE_LABELS) as EventType[];
+
+  return {
+    perEventType: Object.fromEntries(
+      eventTypes.map((type) => [type, Number(perEventType[type])])
+    ) as Record<EventType, number>,
+    mentorMenteeBonus: Number(body.mentorMenteeBonus),
+  };
+};
+
+export type MemberPoints = Omit<LeaderboardEntry, "rank">;
+
+// Score every member who has checked in to a non-cancelled event, keyed by email. A mentor
+// earns the bonus once per event where at least one of their matched mentees also checked in.
+export const scoreMembers = async (): Promise<Map<string, MemberPoints>> => {
+  const [config, events, attendance, matches, mentors, mentees] = await Promise.all([
+    loadPointsConfig(),
+    listEvents(),
+    kv.getByPrefix<AttendanceRecord>("attendance:"),
+    kv.getByPrefix<MatchRecord>("match:"),
+    listVerifiedSignups<Member>("mentor"),
+    listVerifiedSignups<Member>("mentee"),
+  ]);
+
+  const eventsById = new Map(
+    events.filter((event) => event.status !== "cancelled").map((event) => [event.id, event])
+  );
+
+  const totals = new Map<string, MemberPoints>();
+  const attendeesByEvent = new Map<number, Set<string>>();
+
+  for (const record of attendance) {
+    const event = eventsById.get(record.eventId);
+    if (!event) continue;
+
+    const email = record.email.toLowerCase();
+    const entry = totals.get(email) ?? { name: record.name, points: 0, eventsAttended: 0, bonusPoints: 0 };
+    entry.points += config.perEventType[event.type ?? "other"];
+    entry.eventsAttended += 1;
+    totals.set(email, entry);
+
+    const attendees = attendeesByEvent.get(record.eventId) ?? new Set<string>();
+    attendees.add(email);
+    attendeesByEvent.set(record.eventId, attendees);
+  }
+
+  // Signup names are preferred over whatever was typed at check-in
+  const emailById = new Map<string, string>();
+  for (const member of [...mentors, ...mentees]) {
+    const email = member.email.toLowerCase();
+    emailById.set(member.id, email);
+    const entry = totals.get(email);
+    if (entry && member.name) entry.name = member.name;
+  }
+
+  const menteeEmailsByMentor = new Map<string, string[]>();
+  for (const match of matches) {
+    const mentorEmail = emailById.get(match.mentorId);
+    const menteeEmail = emailById.get(match.menteeId);
+    if (!mentorEmail || !menteeEmail) continue;
+    menteeEmailsByMentor.set(mentorEmail, [...(menteeEmailsByMentor.get(mentorEmail) ?? []), menteeEmail]);
+  }
+
+  for (const attendees of attendeesByEvent.values()) {
+    for (const [mentorEmail, menteeEmails] of menteeEmailsByMentor) {
+      if (!attendees.has(mentorEmail) || !menteeEmails.some((email) => attendees.has(email))) continue;
+      const entry = totals.get(mentorEmail)!;
+      entry.points += config.mentorMenteeBonus;
+      entry.bonusPoints += config.mentorMenteeBonus;
+    }
+  }
+
+  return totals;
+};
+
+export const computeLeaderboard = async (): Promise<LeaderboardEntry[]> => {
+  const sorted = [...(await scoreMembers()).values()].sort(
+    (a, b) => b.points - a.points || b.eventsAttended - a.eventsAttended || a.name.localeCompare(b.name)
+  );
+
+  // Ties share a rank ("1, 1, 3")
+  return sorted.map((entry) => ({
+    ...entry,
+    rank: sorted.findIndex((other) => other.points === entry.points) + 1,
+  }));
+};
+
+// Names and totals only; emails stay private
+points.get("/leaderboard", async (c) => {
+  try {
+    return c.json({ leaderboard: await computeLeaderboard() });
+  } catch (err) {
+    console.log(`Error computing leaderboard: ${err}`);
+    return c.json({ error: "Could not load the leaderboard" }, 500);
+  }
+});
+
+points.get("/config", requireOfficer(), async (c) => {
+  try {
+    return c.json({ config: await loadPointsConfig() });
+  } catch (err) {
+    console.log(`Error loading points config: ${err}`);
+    return c.json({ error: "Could not load the points table" }, 500);
+  }
+});
+
+points.put("/config", requireOfficer("eboard"), async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const config = toPointsConfig(body);
+  const errors = validatePointsConfig(config);
+  if (Object.keys(errors).length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  try {
+    await kv.set(CONFIG_KEY, { ...config, updatedAt: new Date().toISOString(), updatedBy: c.get("officer").email });
+    console.log(`${c.get("officer").email} updated the points table`);
+    return c.json({ config });
+  } catch (err) {
+    console.log(`Error saving points config: ${err}`);
+    return c.json({ error: "Could not save the points table" }, 500);
+  }
+});
+
+export default points;
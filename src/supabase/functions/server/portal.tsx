@@ -0,0 +1,280 @@
+// "My sign-up": students view, edit or withdraw their own sign ups
+// A six digit code mailed to the RIT address opens a short session stored under
+// `portal-session:<token>`; the browser sends it back in the X-Portal-Session header.
+// Changes are allowed until the cohort's matching deadline and every one is kept in the sign up history.
+// Mentors from earlier cohorts can sign in too, to start a new sign up from their last one.
+import { Hono } from "npm:hono";
+import { createMiddleware } from "npm:hono/factory";
+import * as kv from "./sharedStore.tsx";
+import { validateEmail } from "../../../utils/formValidation.ts";
+import { isBeforeDeadline } from "../../../utils/cohortSchema.ts";
+import { RESERVED_FIELD_IDS } from "../../../utils/formSchema.ts";
+import type { PortalSession } from "../../../utils/apiContract.ts";
+import { readJsonBody, field } from "./http.tsx";
+import { rateLimit } from "./rateLimit.tsx";
+import { sendMail } from "./mail.tsx";
+import {
+  generateCode,
+  hashCode,
+  findSignupsByEmail,
+  isSignupKind,
+  type SignupKind,
+} from "./verification.tsx";
+import { deleteSignupRecord, parseSignupForm } from "./signups.tsx";
+import { recordSignupChange } from "./signupHistory.tsx";
+import { currentCohort, loadCohorts, runInCohort } from "./cohorts.tsx";
+import { signupRepositories } from "./repositories.tsx";
+import { ConflictError } from "./repository.tsx";
+
+export type PortalEnv = { Variables: { email: string } };
+
+const portal = new Hono<PortalEnv>();
+
+const CODE_TTL_MS = 15 * 60 * 1000;
+const SESSION_TTL_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+const codeKey = (email: string) => `portal-code:${email}`;
+const sessionKey = (token: string) => `portal-session:${token}`;
+
+interface PortalCode {
+  codeHash: string;
+  expiresAt: string;
+  attempts: number;
+}
+
+const isEditable = () => isBeforeDeadline(currentCohort().matchingDeadline);
+
+// Every sign up, of either kind, made with this address
+const findSignups = async (email: string) => {
+  const [mentors, mentees] = await Promise.all([
+    findSignupsByEmail("mentor", email),
+    findSignupsByEmail("mentee", email),
+  ]);
+  return [
+    ...mentors.map((record) => ({ kind: "mentor" as const, record })),
+    ...mentees.map((record) => ({ kind: "mentee" as const, record })),
+  ];
+};
+
+// Verified mentor sign ups from other cohorts, newest cohort first
+const findPreviousSignups = async (email: string) => {
+  const { cohorts } = await loadCohorts();
+  const others = cohorts
+    .filter((cohort) => cohort.id !== currentCohort().id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const found = await Promise.all(others.map((cohort) =>
+    runInCohort(cohort, () => findSignupsByEmail("mentor", email)).then((mentors) =>
+      mentors.filter((record) => record.status !== "pending").map((record) => ({ cohort: cohort.name, record }))
+    )
+  ));
+  return found.flat();
+};
+
+// Also guards the Speed Dating ballot, so only the owner of an email can rank with it
+export const requirePortalSession = createMiddleware<PortalEnv>(async (c, next) => {
+  const token = c.req.header("X-Portal-Session");
+  const session = token ? await kv.get<Omit<PortalSession, "token">>(sessionKey(token)) : null;
+  if (!session || Date.parse(session.expiresAt) < Date.now()) {
+    return c.json({ error: "Your session has expired. Please sign in again." }, 401);
+  }
+
+  c.set("email", session.email);
+  await next();
+});
+
+const codeLimit = rateLimit("portal-code", { windowMinutes: 60, perIp: 30, perEmail: 5 });
+const sessionLimit = rateLimit("portal-session", { windowMinutes: 15, perIp: 30, perEmail: 10 });
+
+// Mail a sign in code. The response is the same either way so sign ups can't be probed.
+portal.post("/code", codeLimit, async (c) => {
+  const body = await readJsonBody(c);
+  const email = body ? field(body, "email").toLowerCase() : "";
+  if (!validateEmail(email)) {
+    return c.json({ error: "Validation failed", errors: { email: "Please enter a valid RIT email address (@rit.edu)" } }, 400);
+  }
+
+  try {
+    const [signups, previous] = await Promise.all([findSignups(email), findPreviousSignups(email)]);
+    if (signups.length > 0 || previous.length > 0) {
+      const code = generateCode();
+      const entry: PortalCode = {
+        codeHash: await hashCode(code),
+        expiresAt: new Date(Date.now() + CODE_TTL_MS).toISOString(),
+        attempts: 0,
+      };
+      await kv.set(codeKey(email), entry);
+      await sendMail({
+        to: email,
+        subject: "Your ACS Mentor/Mentee sign in code",
+        text: `Your sign in code is ${code}.\n\nEnter it on the My sign-up page to view or change your sign up. ` +
+          `It expires in 15 minutes. If you didn't ask for it, you can ignore this email.`,
+      });
+    }
+  } catch (err) {
+    console.log(`Error sending sign-up portal code: ${err}`);
+    return c.json({ error: "Could not send a code. Please try again." }, 500);
+  }
+
+  return c.json({ message: "If that address has a sign up, a code is on its way." });
+});
+
+// Trade a code for a session
+portal.post("/session", sessionLimit, async (c) => {
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const email = field(body, "email").toLowerCase();
+  const code = field(body, "code");
+  if (!/^\d{6}$/.test(code)) {
+    return c.json({ error: "Validation failed", errors: { code: "Enter the 6 digit code from your email" } }, 400);
+  }
+
+  try {
+    const entry: PortalCode | null = await kv.get(codeKey(email));
+    if (!entry || Date.parse(entry.expiresAt) < Date.now()) {
+      return c.json({ error: "This code has expired. Request a new one." }, 410);
+    }
+    if (entry.attempts >= MAX_ATTEMPTS) {
+      return c.json({ error: "Too many incorrect codes. Request a new one." }, 429);
+    }
+    if ((await hashCode(code)) !== entry.codeHash) {
+      await kv.set(codeKey(email), { ...entry, attempts: entry.attempts + 1 });
+      return c.json({ error: "Validation failed", errors: { code: "That code doesn't match. Please try again." } }, 400);
+    }
+
+    const session: PortalSession = {
+      token: crypto.randomUUID(),
+      email,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    };
+    await kv.set(sessionKey(session.token), { email, expiresAt: session.expiresAt });
+    await kv.del(codeKey(email));
+
+    return c.json({ session }, 201);
+  } catch (err) {
+    console.log(`Error opening sign-up portal session: ${err}`);
+    return c.json({ error: "Could not sign you in. Please try again." }, 500);
+  }
+});
+
+portal.post("/sign-out", requirePortalSession, async (c) => {
+  try {
+    await kv.del(sessionKey(c.req.header("X-Portal-Session")!));
+  } catch (err) {
+    console.log(`Error closing sign-up portal session: ${err}`);
+  }
+  return c.json({ signedOut: true });
+});
+
+portal.get("/", requirePortalSession, async (c) => {
+  try {
+    return c.json({
+      signups: await findSignups(c.get("email")),
+      previous: await findPreviousSignups(c.get("email")),
+      cohort: currentCohort().name,
+      deadline: currentCohort().matchingDeadline,
+      editable: isEditable(),
+    });
+  } catch (err) {
+    console.log(`Error loading sign ups for the portal: ${err}`);
+    return c.json({ error: "Could not load your sign up" }, 500);
+  }
+});
+
+// The signed in student's own record, or null
+const ownSignup = async (kind: SignupKind, id: string, email: string) => {
+  const record = await signupRepositories[kind].get(id);
+  return record && record.email === email ? record : null;
+};
+
+const DEADLINE_PASSED = "The matching deadline has passed, so sign ups can no longer be changed.";
+
+portal.put("/:kind/:id", requirePortalSession, async (c) => {
+  const kind = c.req.param("kind");
+  const id = c.req.param("id");
+  if (!isSignupKind(kind)) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  if (!isEditable()) {
+    return c.json({ error: DEADLINE_PASSED }, 409);
+  }
+
+  const body = await readJsonBody(c);
+  if (!body) {
+    return c.json({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  try {
+    // The email is how the student signs in, so it can't be changed here
+    const email = c.get("email");
+    const { formData, errors } = await parseSignupForm(kind, { ...body, email });
+    if (Object.keys(errors).length > 0) {
+      return c.json({ error: "Validation failed", errors }, 400);
+    }
+
+    const before = await ownSignup(kind, id, email);
+    if (!before) {
+      return c.json({ error: "Not found" }, 404);
+    }
+
+    // Saving over a version the student never saw (e.g. edited in another tab) is refused
+    const expectedVersion = typeof body.version === "number" ? body.version : before.version;
+    const changedAt = new Date().toISOString();
+    // Answers can't overwrite the record's own fields, e.g. its verification status
+    const kept = Object.fromEntries(RESERVED_FIELD_IDS.filter((key) => key in before).map((key) => [key, before[key]]));
+    const record = await signupRepositories[kind].save(
+      id,
+      { ...before, ...formData, ...kept, updatedAt: changedAt },
+      expectedVersion,
+    );
+    await recordSignupChange({ kind, signupId: id, action: "updated", changedAt, changedBy: email, before, after: record });
+
+    return c.json({ record });
+  } catch (err) {
+    if (err instanceof ConflictError) {
+      return c.json({ error: "Your sign up changed since you opened it. Reload the page to see the latest answers." }, 409);
+    }
+    console.log(`Error updating ${kind} ${id} from the portal: ${err}`);
+    return c.json({ error: "Could not save your changes. Please try again." }, 500);
+  }
+});
+
+portal.delete("/:kind/:id", requirePortalSession, async (c) => {
+  const kind = c.req.param("kind");
+  const id = c.req.param("id");
+  if (!isSignupKind(kind)) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  if (!isEditable()) {
+    return c.json({ error: DEADLINE_PASSED }, 409);
+  }
+
+  try {
+    const email = c.get("email");
+    const before = await ownSignup(kind, id, email);
+    if (!before) {
+      return c.json({ error: "Not found" }, 404);
+    }
+
+    await deleteSignupRecord(kind, id);
+    await recordSignupChange({
+      kind,
+      signupId: id,
+      action: "withdrawn",
+      changedAt: new Date().toISOString(),
+      changedBy: email,
+      before,
+      after: null,
+    });
+
+    return c.json({ withdrawn: id });
+  } catch (err) {
+    console.log(`Error withdrawing ${kind} ${id}: ${err}`);
+    return c.json({ error: "Could not withdraw your sign up. Please try again." }, 500);
+  }
+});
+
+export default portal;
@@ -0,0 +1,102 @@
+// Rate limits for the public routes that write to the KV store
+// Requests are counted per IP and, for routes whose body has one, per email, under
+// `ratelimit:<name>:ip:<address>` and `ratelimit:<name>:email:<email>` in the shared store so
+// switching cohorts doesn't reset them. A count covers a fixed window and is overwritten once it
+// has passed; counters nobody hits again are swept every so often. Campus networks put many students behind one address, so the per IP limits are
+// loose and the per email limits do most of the work.
+import type { Context } from "npm:hono";
+import { createMiddleware } from "npm:hono/factory";
+import { getKvStore } from "./kvStores.tsx";
+import { readJsonBody, field } from "./http.tsx";
+import type { RateLimitBody } from "../../../utils/apiContract.ts";
+
+export interface RateLimitOptions {
+  windowMinutes: number;
+  perIp: number;
+  perEmail?: number; // Read from the body's `email`
+}
+
+interface Counter {
+  resetAt: number; // When the window ends
+  count: number;
+  version: number;
+}
+
+const PREFIX = "ratelimit:";
+const COUNT_ATTEMPTS = 3;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const SWEEP_PAGE_SIZE = 500;
+
+let lastSweep = 0;
+
+// The caller sets whatever X-Forwarded-For it likes and each proxy appends the address it saw,
+// so only the last entry, added by Supabase's gateway, can be trusted
+const clientIp = (c: Context) =>
+  c.req.header("X-Forwarded-For")?.split(",").at(-1)?.trim() || c.req.header("X-Real-IP") || "unknown";
+
+// Count a request, resolving the seconds until its window ends when it is over the limit
+const hit = async (key: string, max: number, windowMs: number): Promise<number> => {
+  const store = getKvStore();
+  for (let attempt = 0; attempt < COUNT_ATTEMPTS; attempt++) {
+    const now = Date.now();
+    const stored = (await store.get(key)) as Counter | null;
+    // Counters from before `resetAt` have none and start a fresh window
+    const current = stored && now < stored.resetAt;
+    const resetAt = current ? stored.resetAt : now + windowMs;
+    const count = current ? stored.count : 0;
+    if (count >= max) {
+      return Math.max(1, Math.ceil((resetAt - now) / 1000));
+    }
+
+    const version = stored?.version ?? 0;
+    if (await store.compareAndSet(key, version, { resetAt, count: count + 1, version: version + 1 })) {
+      return 0;
+    }
+  }
+  // Lost every race to other requests; let this one through rather than turn away a real person
+  return 0;
+};
+
+// Delete counters whose window has passed, at most once per SWEEP_INTERVAL_MS on each instance
+const sweepExpired = async () => {
+  const now = Date.now();
+  if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+
+  const store = getKvStore();
+  let after: string | undefined;
+  for (;;) {
+    const page = await store.getByPrefix(PREFIX, { after, limit: SWEEP_PAGE_SIZE });
+    const expired = page.filter(({ value }) => ((value as Partial<Counter> | null)?.resetAt ?? 0) <= now);
+    await store.mdel(expired.map(({ key }) => key));
+    if (page.length < SWEEP_PAGE_SIZE) return;
+    after = page[page.length - 1].key;
+  }
+};
+
+export const rateLimit = (name: string, { windowMinutes, perIp, perEmail }: RateLimitOptions) =>
+  createMiddleware(async (c, next) => {
+    const windowMs = windowMinutes * 60 * 1000;
+
+    try {
+      const checks = [hit(`${PREFIX}${name}:ip:${clientIp(c)}`, perIp, windowMs)];
+      if (perEmail) {
+        const body = await readJsonBody(c);
+        const email = body ? field(body, "email").toLowerCase() : "";
+        if (email) checks.push(hit(`${PREFIX}${name}:email:${email}`, perEmail, windowMs));
+      }
+
+      const retryAfter = Math.max(...(await Promise.all(checks)));
+      if (retryAfter > 0) {
+        c.header("Retry-After", String(retryAfter));
+        return c.json<RateLimitBody>({ error: "Too many requests", retryAfter }, 429);
+      }
+    } catch (err) {
+      // The limits are a safeguard, so a storage failure shouldn't take the route down with it
+      console.log(`Error checking the ${name} rate limit: ${err}`);
+    }
+
+    sweepExpired().catch((err) => console.log(`Error sweeping expired rate limits: ${err}`));
+
+    await next();
+  });
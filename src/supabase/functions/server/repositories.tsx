@@ -0,0 +1,41 @@
+// Typed repositories for each cohort's sign ups and RSVPs, and the ids they're keyed by
+import type { RsvpRecord } from "../../../utils/rsvpSchema.ts";
+import { isRsvpResponse } from "../../../utils/rsvpSchema.ts";
+import { createRepository, isRecord, type Repository, type Schema } from "./repository.tsx";
+import { cohortKvStore } from "./cohortStore.tsx";
+import type { SignupKind, Verifiable } from "./verification.tsx";
+
+// A mentor or mentee sign up: the verification fields plus the answers to the semester's questions
+export interface SignupRecord extends Verifiable {
+  createdAt: string;
+  [answer: string]: unknown;
+}
+
+const isSignupRecord: Schema<SignupRecord> = (value): value is SignupRecord =>
+  isRecord(value) && typeof value.id === "string" && typeof value.email === "string";
+
+const isRsvpRecord: Schema<RsvpRecord> = (value): value is RsvpRecord =>
+  isRecord(value) && typeof value.eventId === "number" && typeof value.email === "string" &&
+  isRsvpResponse(value.response);
+
+// `mentor:<id>` and `mentee:<id>`, indexed by RIT email (`idx:mentor:email:<email>:<id>`)
+const signupIndexes = { email: (record: SignupRecord) => record.email.toLowerCase() };
+
+export const signupRepositories: Record<SignupKind, Repository<SignupRecord>> = {
+  mentor: createRepository("mentor", isSignupRecord, cohortKvStore, signupIndexes),
+  mentee: createRepository("mentee", isSignupRecord, cohortKvStore, signupIndexes),
+};
+
+// `rsvp:<eventId>:<email>`, one per person per event, indexed by event (`idx:rsvp:event:<eventId>:<id>`)
+export const rsvpRepository = createRepository("rsvp", isRsvpRecord, cohortKvStore, {
+  event: (record) => String(record.eventId),
+});
+
+// Repositories that keep secondary indexes, for the officer rebuild route
+export const indexedRepositories: Repository<unknown>[] = [
+  signupRepositories.mentor,
+  signupRepositories.mentee,
+  rsvpRepository,
+];
+
+export const rsvpId = (eventId: number, email: string) => `${eventId}:${email.toLowerCase()}`;
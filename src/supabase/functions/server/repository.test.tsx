@@ -0,0 +1,127 @@
+// Run with: deno test --no-check --allow-env src/supabase/functions/server
+import assert from "node:assert/strict";
+import { memoryKvStore, type KvStore } from "./kvStores.tsx";
+import { ConflictError, InvalidRecordError, createRepository, isRecord, type Schema } from "./repository.tsx";
+
+interface Note {
+  id: string;
+  email: string;
+  text: string;
+}
+
+const isNote: Schema<Note> = (value): value is Note =>
+  isRecord(value) && typeof value.id === "string" && typeof value.email === "string" &&
+  typeof value.text === "string";
+
+const setup = (initial: Record<string, unknown> = {}) => {
+  const store = memoryKvStore(initial);
+  const notes = createRepository("note", isNote, () => store, { email: (note) => note.email });
+  return { store, notes };
+};
+
+const keys = async (store: KvStore, prefix: string) =>
+  (await store.getByPrefix(prefix)).map((entry) => entry.key);
+
+Deno.test("create starts records at version 1 and refuses a taken id", async () => {
+  const { notes } = setup();
+
+  const created = await notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "hi" });
+  assert.equal(created.version, 1);
+  assert.deepEqual(await notes.get("a"), created);
+
+  await assert.rejects(() => notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "again" }), ConflictError);
+});
+
+Deno.test("create refuses an id held by a record from before versioning", async () => {
+  const { notes } = setup({ "note:a": { id: "a", email: "sc1234@rit.edu", text: "old" } });
+
+  assert.equal((await notes.get("a"))?.version, 0);
+  await assert.rejects(() => notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "new" }), ConflictError);
+});
+
+Deno.test("save bumps the version and rejects a stale one", async () => {
+  const { notes } = setup();
+  await notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "first" });
+
+  const saved = await notes.save("a", { id: "a", email: "sc1234@rit.edu", text: "second" }, 1);
+  assert.equal(saved.version, 2);
+
+  await assert.rejects(() => notes.save("a", { id: "a", email: "sc1234@rit.edu", text: "stale" }, 1), ConflictError);
+  assert.equal((await notes.get("a"))?.text, "second");
+});
+
+Deno.test("update applies the change to the latest record", async () => {
+  const { notes } = setup();
+  await notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "first" });
+
+  const updated = await notes.update("a", (note) => ({ ...note, text: `${note.text}!` }));
+  assert.equal(updated?.text, "first!");
+  assert.equal(updated?.version, 2);
+  assert.equal(await notes.update("missing", (note) => note), null);
+});
+
+Deno.test("writes that don't match the schema are refused and stored ones are skipped", async () => {
+  const { notes } = setup({ "note:bad": { id: "bad" } });
+
+  await assert.rejects(() => notes.create("b", { id: "b" } as Note), InvalidRecordError);
+  assert.equal(await notes.get("bad"), null);
+  assert.deepEqual(await notes.listAll(), []);
+});
+
+Deno.test("list pages through records with a cursor", async () => {
+  const { notes } = setup();
+  for (const id of ["a", "b", "c"]) {
+    await notes.create(id, { id, email: `${id}@rit.edu`, text: id });
+  }
+
+  const first = await notes.list({ limit: 2 });
+  assert.deepEqual(first.items.map((note) => note.id), ["a", "b"]);
+  assert.equal(first.cursor, "b");
+
+  const second = await notes.list({ limit: 2, cursor: first.cursor });
+  assert.deepEqual(second.items.map((note) => note.id), ["c"]);
+  assert.equal(second.cursor, null);
+});
+
+Deno.test("index keys follow creates, changes and deletes", async () => {
+  const { store, notes } = setup();
+  await notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "hi" });
+  assert.deepEqual(await keys(store, "idx:"), ["idx:note:email:sc1234@rit.edu:a"]);
+  assert.deepEqual((await notes.findBy("email", "sc1234@rit.edu")).map((note) => note.id), ["a"]);
+
+  await notes.save("a", { id: "a", email: "mp5678@rit.edu", text: "hi" }, 1);
+  assert.deepEqual(await keys(store, "idx:"), ["idx:note:email:mp5678@rit.edu:a"]);
+  assert.deepEqual(await notes.findBy("email", "sc1234@rit.edu"), []);
+
+  await notes.delete("a");
+  assert.deepEqual(await keys(store, ""), []);
+});
+
+Deno.test("a conflicting save leaves only a hint that findBy ignores", async () => {
+  const { notes } = setup();
+  await notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "hi" });
+
+  await assert.rejects(() => notes.save("a", { id: "a", email: "mp5678@rit.edu", text: "hi" }, 0), ConflictError);
+  assert.deepEqual(await notes.findBy("email", "mp5678@rit.edu"), []);
+  assert.deepEqual((await notes.findBy("email", "sc1234@rit.edu")).map((note) => note.id), ["a"]);
+});
+
+Deno.test("rebuildIndexes restores missing index keys and drops stale ones", async () => {
+  const { store, notes } = setup({
+    "note:a": { id: "a", email: "sc1234@rit.edu", text: "hi" },
+    "idx:note:email:old@rit.edu:a": { id: "a" },
+  });
+
+  assert.deepEqual(await notes.rebuildIndexes(), { records: 1, entries: 1, removed: 1 });
+  assert.deepEqual(await keys(store, "idx:"), ["idx:note:email:sc1234@rit.edu:a"]);
+});
+
+Deno.test("storedKeys and deleteMany cover the index keys", async () => {
+  const { store, notes } = setup();
+  const a = await notes.create("a", { id: "a", email: "sc1234@rit.edu", text: "a" });
+  await notes.create("b", { id: "b", email: "mp5678@rit.edu", text: "b" });
+
+  assert.deepEqual(notes.storedKeys("a", a), ["note:a", "idx:note:email:sc1234@rit.edu:a"]);
+  await notes.deleteMany(["a", "b"]);
+  assert.deepEqual(await keys(store, ""), []);
+});
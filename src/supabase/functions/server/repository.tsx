@@ -0,0 +1,209 @@
+// Typed repositories over a KvStore (kvStores.tsx)
+// A repository owns the keys `<entity>:<id>`. Values are checked against the entity's schema
+// on the way in and out, and carry a `version` that every save bumps, so a save based on a
+// stale read fails with ConflictError instead of overwriting someone else's change.
+// Secondary indexes are kept as `idx:<entity>:<index>:<value>:<id>` keys so lookups don't have to
+// scan every record. They are only hints that findBy() checks against the record, so a write adds
+// its new index keys before saving the record and removes stale ones after: a request that dies
+// part way leaves an extra hint, never a record its index can't find. rebuildIndexes() clears out
+// the extras.
+import type { KvEntry, KvStore } from "./kvStores.tsx";
+
+// Runtime check that an untrusted or stored value is a T
+export type Schema<T> = (value: unknown) => value is T;
+
+export type Versioned<T> = T & { version: number };
+
+// Index name -> the value a record is filed under, or undefined to leave it out
+export type Indexes<T> = Record<string, (record: T) => string | undefined>;
+
+export interface IndexRebuild {
+  records: number;
+  entries: number;
+  removed: number;
+}
+
+export interface ListOptions {
+  within?: string; // Only ids starting with this, e.g. `<eventId>:` for one event's RSVPs
+  cursor?: string | null; // From the previous page
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  cursor: string | null; // null on the last page
+}
+
+export class ConflictError extends Error {
+  constructor(key: string) {
+    super(`${key} was changed by another request`);
+    this.name = "ConflictError";
+  }
+}
+
+export class InvalidRecordError extends Error {
+  constructor(key: string) {
+    super(`${key} does not match its schema`);
+    this.name = "InvalidRecordError";
+  }
+}
+
+export interface Repository<T> {
+  entity: string;
+  key(id: string): string;
+  // The record's key and its index keys, for deleting it in one mdel with related keys
+  storedKeys(id: string, record: T): string[];
+  get(id: string): Promise<Versioned<T> | null>;
+  getMany(ids: string[]): Promise<Versioned<T>[]>;
+  list(options?: ListOptions): Promise<Page<Versioned<T>>>;
+  listAll(within?: string): Promise<Versioned<T>[]>;
+  entries(within?: string): Promise<KvEntry<Versioned<T>>[]>;
+  // Fails with ConflictError when the id is taken
+  create(id: string, value: T): Promise<Versioned<T>>;
+  // Fails with ConflictError unless the stored version is still expectedVersion
+  save(id: string, value: T, expectedVersion: number): Promise<Versioned<T>>;
+  // Read, change and save, starting over if another write lands in between; null when missing
+  update(id: string, change: (current: Versioned<T>) => T): Promise<Versioned<T> | null>;
+  delete(id: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  findBy(index: string, value: string): Promise<Versioned<T>[]>;
+  rebuildIndexes(): Promise<IndexRebuild>;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const UPDATE_ATTEMPTS = 3;
+
+export const createRepository = <T,>(
+  entity: string,
+  schema: Schema<T>,
+  store: () => KvStore,
+  indexes: Indexes<T> = {},
+): Repository<T> => {
+  const prefix = `${entity}:`;
+  const key = (id: string) => `${prefix}${id}`;
+  const idOf = (entryKey: string) => entryKey.slice(prefix.length);
+  const hasIndexes = Object.keys(indexes).length > 0;
+
+  const indexPrefix = (name: string, value: string) => `idx:${entity}:${name}:${value}:`;
+
+  const indexKeys = (id: string, record: T) =>
+    Object.entries(indexes).flatMap(([name, valueOf]) => {
+      const value = valueOf(record);
+      return value ? [`${indexPrefix(name, value)}${id}`] : [];
+    });
+
+  const storedKeys = (id: string, record: T) => [key(id), ...indexKeys(id, record)];
+
+  // Stored values that no longer match the schema are logged and left out rather than failing
+  // the whole read
+  const checked = (entries: KvEntry[]): KvEntry<Versioned<T>>[] =>
+    entries.filter((entry): entry is KvEntry<Versioned<T>> => {
+      if (schema(entry.value)) return true;
+      console.log(`Skipping invalid record ${entry.key}`);
+      return false;
+    }).map((entry) => ({ key: entry.key, value: { ...entry.value, version: entry.value.version ?? 0 } }));
+
+  const get = async (id: string) => {
+    const value = await store().get(key(id));
+    return value === null || value === undefined ? null : checked([{ key: key(id), value }])[0]?.value ?? null;
+  };
+
+  const getMany = async (ids: string[]) => checked(await store().mget(ids.map(key)));
+
+  // previous is the record being replaced, whose index keys may need removing
+  const write = async (id: string, value: T, expectedVersion: number, previous: T | null) => {
+    if (!schema(value)) {
+      throw new InvalidRecordError(key(id));
+    }
+    const { version: _version, ...fields } = value as Versioned<T>;
+    const next = { ...fields, version: expectedVersion + 1 } as Versioned<T>;
+    const added = indexKeys(id, next);
+
+    await store().mset(added.map((indexKey) => ({ key: indexKey, value: { id } })));
+    if (!(await store().compareAndSet(key(id), expectedVersion, next))) {
+      throw new ConflictError(key(id));
+    }
+    await store().mdel(previous ? indexKeys(id, previous).filter((indexKey) => !added.includes(indexKey)) : []);
+    return next;
+  };
+
+  const entries = async (within = "") => checked(await store().getByPrefix(`${prefix}${within}`));
+
+  return {
+    entity,
+    key,
+    storedKeys,
+    get,
+    getMany: async (ids) => (await getMany(ids)).map((entry) => entry.value),
+    list: async ({ within = "", cursor, limit = DEFAULT_PAGE_SIZE } = {}) => {
+      const size = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+      const page = await store().getByPrefix(`${prefix}${within}`, {
+        after: cursor ? key(cursor) : undefined,
+        limit: size,
+      });
+      return {
+        items: checked(page).map((entry) => entry.value),
+        cursor: page.length === size ? idOf(page[page.length - 1].key) : null,
+      };
+    },
+    listAll: async (within) => (await entries(within)).map((entry) => entry.value),
+    entries,
+    create: async (id, value) => {
+      // Version 0 also matches records from before versioning, so check the id is really free
+      if (await store().get(key(id))) {
+        throw new ConflictError(key(id));
+      }
+      return write(id, value, 0, null);
+    },
+    save: async (id, value, expectedVersion) =>
+      write(id, value, expectedVersion, hasIndexes ? await get(id) : null),
+    update: async (id, change) => {
+      for (let attempt = 1; ; attempt++) {
+        const current = await get(id);
+        if (!current) return null;
+        try {
+          return await write(id, change(current), current.version, current);
+        } catch (err) {
+          if (!(err instanceof ConflictError) || attempt >= UPDATE_ATTEMPTS) throw err;
+        }
+      }
+    },
+    delete: async (id) => {
+      const record = hasIndexes ? await get(id) : null;
+      await store().mdel(record ? storedKeys(id, record) : [key(id)]);
+    },
+    deleteMany: async (ids) => {
+      const records = hasIndexes ? await getMany(ids) : [];
+      await store().mdel([
+        ...ids.map(key),
+        ...records.flatMap((entry) => indexKeys(idOf(entry.key), entry.value)),
+      ]);
+    },
+    // Index entries are hints: records that no longer have the value are left out
+    findBy: async (index, value) => {
+      const valueOf = indexes[index];
+      if (!valueOf) {
+        throw new Error(`${entity} has no ${index} index`);
+      }
+      const hits = await store().getByPrefix(indexPrefix(index, value));
+      const records = await getMany(hits.map((hit) => (hit.value as { id: string }).id));
+      return records.map((entry) => entry.value).filter((record) => valueOf(record) === value);
+    },
+    rebuildIndexes: async () => {
+      const [records, existing] = await Promise.all([entries(), store().getByPrefix(`idx:${entity}:`)]);
+      const wanted = records.flatMap((entry) =>
+        indexKeys(idOf(entry.key), entry.value).map((indexKey) => ({ key: indexKey, value: { id: idOf(entry.key) } }))
+      );
+      const wantedKeys = new Set(wanted.map((entry) => entry.key));
+      const stale = existing.map((entry) => entry.key).filter((indexKey) => !wantedKeys.has(indexKey));
+
+      await store().mdel(stale);
+      await store().mset(wanted);
+      return { records: records.length, entries: wanted.length, removed: stale.length };
+    },
+  };
+};
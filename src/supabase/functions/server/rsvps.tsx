@@ -0,0 +1,24 @@
+// RSVP storage helpers
+// RSVPs live in rsvpRepository (repositories.tsx), one per person per event.
+import type { RsvpRecord } from "../../../utils/rsvpSchema.ts";
+import { rsvpId, rsvpRepository } from "./repositories.tsx";
+
+export const listRsvps = (eventId: number): Promise<RsvpRecord[]> =>
+  rsvpRepository.findBy("event", String(eventId));
+
+// Every RSVP, grouped by event id
+export const listRsvpsByEvent = async (): Promise<Map<number, RsvpRecord[]>> => {
+  const rsvps: RsvpRecord[] = await rsvpRepository.listAll();
+  const byEvent = new Map<number, RsvpRecord[]>();
+  for (const rsvp of rsvps) {
+    byEvent.set(rsvp.eventId, [...(byEvent.get(rsvp.eventId) ?? []), rsvp]);
+  }
+  return byEvent;
+};
+
+export const deleteRsvps = async (eventId: number) => {
+  const rsvps = await listRsvps(eventId);
+  if (rsvps.length > 0) {
+    await rsvpRepository.deleteMany(rsvps.map((rsvp) => rsvpId(eventId, rsvp.email)));
+  }
+};
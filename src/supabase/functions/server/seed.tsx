@@ -0,0 +1,44 @@
+// Fixtures for running the server locally (see README)
+// Loads the seed events from data/events.ts and the sample mentors from data/sampleMentors.ts
+// into the Fall 2025 cohort as verified sign ups. Seeding again skips anything already there.
+// Run it against the configured store with:
+//   KV_STORE=sqlite deno run -A src/supabase/functions/server/seed.tsx
+import { LEGACY_COHORT } from "../../../utils/cohortSchema.ts";
+import { sampleMentors, signedUpAt } from "../../../data/sampleMentors.ts";
+import { kvStoreKind } from "./kvStores.tsx";
+import { runInCohort } from "./cohorts.tsx";
+import { listEvents } from "./events.tsx";
+import { findSignupsByEmail } from "./verification.tsx";
+import { signupRepositories } from "./repositories.tsx";
+
+export const seedLocalStore = () => runInCohort(LEGACY_COHORT, async () => {
+  if (kvStoreKind() === "supabase") {
+    throw new Error("Fixtures are only for local stores; set KV_STORE to sqlite or memory");
+  }
+
+  // Reading the events seeds an empty store
+  const events = await listEvents();
+
+  let mentors = 0;
+  for (const sample of sampleMentors) {
+    if ((await findSignupsByEmail("mentor", sample.email)).length > 0) continue;
+
+    const { hoursAgo: _hoursAgo, ...answers } = sample;
+    const createdAt = signedUpAt(sample).toISOString();
+    const id = crypto.randomUUID();
+    await signupRepositories.mentor.create(id, {
+      id,
+      ...answers,
+      status: "verified",
+      verifiedAt: createdAt,
+      createdAt,
+    });
+    mentors++;
+  }
+
+  console.log(`Seeded ${LEGACY_COHORT.name}: ${events.length} events, ${mentors} new sample mentors`);
+});
+
+if (import.meta.main) {
+  await seedLocalStore();
+}
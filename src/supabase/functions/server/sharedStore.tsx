@@ -0,0 +1,5 @@
+// The kv_store API over the active store (kvStores.tsx), for records every cohort shares:
+// officers, portal sessions, form schemas and the cohort registry
+import { getKvStore, kvFunctions } from "./kvStores.tsx";
+
+export const { set, get, del, mset, mget, mdel, getByPrefix } = kvFunctions(getKvStore);
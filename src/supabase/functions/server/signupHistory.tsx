@@ -0,0 +1,16 @@
+// Audit trail of changes students make to their own sign ups
+// Each change is kept under `signup-history:<kind>:<id>:<timestamp>` and survives a withdrawal.
+import * as kv from "./cohortStore.tsx";
+import type { SignupKind } from "./verification.tsx";
+import type { SignupChange } from "../../../utils/apiContract.ts";
+
+const historyPrefix = (kind: SignupKind, id: string) => `signup-history:${kind}:${id}:`;
+
+export const recordSignupChange = (change: SignupChange) =>
+  kv.set(`${historyPrefix(change.kind, change.signupId)}${change.changedAt}`, change);
+
+// Oldest first
+export const listSignupHistory = async (kind: SignupKind, id: string): Promise<SignupChange[]> => {
+  const changes: SignupChange[] = await kv.getByPrefix(historyPrefix(kind, id));
+  return changes.sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+};
@@ -0,0 +1,28 @@
+// Sign up records shared by the public sign up routes, "My sign-up" and the officer dashboard
+import * as kv from "./cohortStore.tsx";
+import { coerceAnswers, validateAnswers } from "../../../utils/formSchema.ts";
+import type { SignupKind } from "./verification.tsx";
+import type { MatchRecord } from "../../../utils/apiContract.ts";
+import { loadFormSchema } from "./formSchemas.tsx";
+import { signupRepositories } from "./repositories.tsx";
+
+// Coerce an untrusted body into answers to this semester's questions and validate them
+export const parseSignupForm = async (kind: SignupKind, body: Record<string, unknown>) => {
+  const { fields } = await loadFormSchema(kind);
+  const answers = coerceAnswers(fields, body);
+  const formData = { ...answers, email: String(answers.email ?? "").toLowerCase() };
+  return { formData, errors: validateAnswers(fields, formData) };
+};
+
+// Delete a sign up along with its pending code and any proposed matches that include it
+export const deleteSignupRecord = async (kind: SignupKind, id: string) => {
+  const repository = signupRepositories[kind];
+  const [record, matches] = await Promise.all([repository.get(id), kv.getByPrefix<MatchRecord>("match:")]);
+  const related = matches.filter((match) => match[`${kind}Id`] === id);
+
+  await kv.mdel([
+    ...(record ? repository.storedKeys(id, record) : [repository.key(id)]),
+    `verification:${kind}:${id}`,
+    ...related.map((match) => `match:${match.id}`),
+  ]);
+};
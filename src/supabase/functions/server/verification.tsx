@@ -0,0 +1,160 @@
+// RIT email verification for sign ups
+// New mentor/mentee records start out "pending" and a six digit code is mailed to
+// the address. Entering the code marks the record "verified"; pending records are
+// purged once VERIFICATION_WINDOW_HOURS (default 24) has passed. Each sign up gets at
+// most MAX_SENDS codes and MAX_ATTEMPTS wrong guesses between them, so asking for a
+// new code doesn't buy more guesses.
+import * as kv from "./cohortStore.tsx";
+import { cohortKvStore } from "./cohortStore.tsx";
+import { sendMail } from "./mail.tsx";
+import { signupRepositories, type SignupRecord } from "./repositories.tsx";
+import type { SignupKind, VerificationStatus } from "../../../utils/apiContract.ts";
+
+export type { SignupKind, VerificationStatus };
+
+export interface Verifiable {
+  id: string;
+  email: string;
+  status: VerificationStatus;
+  expiresAt?: string;
+}
+
+interface VerificationCode {
+  codeHash: string;
+  expiresAt: string;
+  attempts: number; // Guesses across every code sent for the sign up
+  sends?: number; // Codes from before the send limit have none
+  version: number;
+}
+
+const MAX_ATTEMPTS = 10;
+const MAX_SENDS = 5;
+const UPDATE_ATTEMPTS = 3;
+
+export const isSignupKind = (kind: unknown): kind is SignupKind =>
+  kind === "mentor" || kind === "mentee";
+
+const verificationKey = (kind: SignupKind, id: string) => `verification:${kind}:${id}`;
+
+export const verificationWindowMs = () =>
+  Number(Deno.env.get("VERIFICATION_WINDOW_HOURS") ?? 24) * 60 * 60 * 1000;
+
+// Expiry timestamp for a record created now
+export const pendingExpiry = () => new Date(Date.now() + verificationWindowMs()).toISOString();
+
+export const hashCode = async (code: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(code));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const generateCode = () => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+};
+
+const readEntry = (kind: SignupKind, id: string) =>
+  kv.get<VerificationCode>(verificationKey(kind, id));
+
+// Write the entry only if nobody else has since the given one was read
+const replaceEntry = (kind: SignupKind, id: string, read: VerificationCode | null, next: Omit<VerificationCode, "version">) => {
+  const version = read?.version ?? 0;
+  return cohortKvStore().compareAndSet(verificationKey(kind, id), version, { ...next, version: version + 1 });
+};
+
+export type SendOutcome = "sent" | "limited";
+
+// Store a fresh code for the record and mail it, replacing any earlier code but keeping its
+// wrong guesses
+export const sendVerificationCode = async (kind: SignupKind, record: Verifiable): Promise<SendOutcome> => {
+  const code = generateCode();
+  const codeHash = await hashCode(code);
+  for (let attempt = 1; ; attempt++) {
+    const entry = await readEntry(kind, record.id);
+    const sends = entry?.sends ?? 0;
+    if (sends >= MAX_SENDS) return "limited";
+
+    const next = {
+      codeHash,
+      expiresAt: record.expiresAt ?? pendingExpiry(),
+      attempts: entry?.attempts ?? 0,
+      sends: sends + 1,
+    };
+    if (await replaceEntry(kind, record.id, entry, next)) break;
+    if (attempt >= UPDATE_ATTEMPTS) {
+      throw new Error("Could not store the verification code");
+    }
+  }
+
+  await sendMail({
+    to: record.email,
+    subject: "Your ACS Mentor/Mentee verification code",
+    text: `Your verification code is ${code}.\n\nEnter it on the sign up page to confirm your ${kind} sign up. ` +
+      `If you didn't sign up, you can ignore this email.`,
+  });
+  return "sent";
+};
+
+export type VerifyOutcome = "verified" | "invalid" | "expired" | "locked";
+
+// Count a guess against the sign up before checking it, so guesses sent side by side can't
+// get past MAX_ATTEMPTS and a guess that can't be counted is never checked
+const claimAttempt = async (kind: SignupKind, id: string): Promise<VerificationCode | VerifyOutcome> => {
+  const record = await signupRepositories[kind].get(id);
+  if (record?.status === "verified") return "verified";
+
+  for (let attempt = 1; ; attempt++) {
+    const entry = await readEntry(kind, id);
+    if (!record || !entry || Date.parse(entry.expiresAt) < Date.now()) return "expired";
+    if (entry.attempts >= MAX_ATTEMPTS) return "locked";
+
+    if (await replaceEntry(kind, id, entry, { ...entry, attempts: entry.attempts + 1 })) return entry;
+    if (attempt >= UPDATE_ATTEMPTS) {
+      throw new Error("Could not count the verification attempt");
+    }
+  }
+};
+
+// Check a code; on success the record is marked verified and the code is discarded
+export const verifyCode = async (kind: SignupKind, id: string, code: string): Promise<VerifyOutcome> => {
+  const repository = signupRepositories[kind];
+  const entry = await claimAttempt(kind, id);
+  if (typeof entry === "string") return entry;
+  if ((await hashCode(code)) !== entry.codeHash) return "invalid";
+
+  await repository.update(id, ({ expiresAt: _expiresAt, ...rest }) => ({
+    ...rest,
+    status: "verified",
+    verifiedAt: new Date().toISOString(),
+  }));
+  await kv.del(verificationKey(kind, id));
+  return "verified";
+};
+
+const isExpired = (record: Verifiable) =>
+  record.status === "pending" && !!record.expiresAt && Date.parse(record.expiresAt) < Date.now();
+
+// Load every record of a kind, deleting pending ones whose window has passed
+export const listSignups = async <T extends Verifiable = SignupRecord>(kind: SignupKind): Promise<T[]> => {
+  const repository = signupRepositories[kind];
+  const records = await repository.listAll();
+  const expired = records.filter(isExpired);
+
+  if (expired.length > 0) {
+    await kv.mdel(expired.flatMap((record) => [
+      ...repository.storedKeys(record.id, record),
+      verificationKey(kind, record.id),
+    ]));
+  }
+
+  return records.filter((record) => !isExpired(record)) as unknown as T[];
+};
+
+// A student's sign ups of one kind, found through the email index; expired ones are left
+// for listSignups to purge
+export const findSignupsByEmail = async (kind: SignupKind, email: string): Promise<SignupRecord[]> =>
+  (await signupRepositories[kind].findBy("email", email.toLowerCase())).filter((record) => !isExpired(record));
+
+// Only verified sign ups take part in ballots and matching (records from before
+// verification existed have no status and count as verified)
+export const listVerifiedSignups = async <T extends Verifiable = SignupRecord>(kind: SignupKind): Promise<T[]> =>
+  (await listSignups<T>(kind)).filter((record) => record.status !== "pending");
@@ -0,0 +1,473 @@
+import { projectId, publicAnonKey } from "./supabase/info";
+import { FormErrors } from "./formValidation";
+import { FormSchema, FormSchemaErrors, SignupAnswers, SignupFormKind } from "./formSchema";
+import { EventErrors, EventFormData, EventRecord } from "./eventSchema";
+import { RsvpCounts, RsvpEntry, RsvpErrors, RsvpResponse } from "./rsvpSchema";
+import { AttendanceRecord, CheckInErrors, CheckInFormData } from "./attendanceSchema";
+import { LeaderboardEntry, PointsConfig, PointsConfigErrors } from "./pointsSchema";
+import { FamilyErrors, FamilyFormData, FamilyPage, FamilyRecord, FamilySummary } from "./familySchema";
+import { Cohort, CohortDeadlineDays, CohortDeadlineErrors, CohortErrors, CohortRegistry } from "./cohortSchema";
+import {
+  FUNCTION_NAME,
+  BallotInfo,
+  BallotRecord,
+  ErrorBody,
+  MatchRecord,
+  MatchRun,
+  MenteeRecord,
+  MentorRecord,
+  Officer,
+  OfficerRole,
+  PortalSession,
+  PortalSignup,
+  PortalSignups,
+  SignupChange,
+  SignupKind,
+  SpamGuardFields,
+  VerificationStatus,
+  fieldErrors,
+  functionsUrl,
+  isRateLimitBody,
+} from "./apiContract";
+
+export type {
+  BallotCandidate,
+  BallotInfo,
+  BallotRecord,
+  MatchRecord,
+  MatchRun,
+  MenteeRecord,
+  MentorRecord,
+  Officer,
+  OfficerRole,
+  PortalSession,
+  PortalSignup,
+  PortalSignups,
+  PreviousSignup,
+  SignupChange,
+  SignupChangeAction,
+  SignupKind,
+  VerificationStatus,
+} from "./apiContract";
+
+// `npm run dev:local` builds in local-server mode, where Vite proxies /functions/v1 to an edge
+// server running on this machine (see vite.config.ts and the README)
+const FUNCTIONS_URL = import.meta.env.MODE === "local-server" ? "/functions/v1" : functionsUrl(projectId);
+
+// Base URL for the make-server edge function
+export const API_BASE_URL = `${FUNCTIONS_URL}/${FUNCTION_NAME}`;
+
+export interface VerificationErrors {
+  code?: string;
+}
+
+export interface BallotErrors {
+  email?: string;
+  rankings?: string;
+}
+
+export type ApiResult<T, E> =
+  | { ok: true; data: T }
+  | { ok: false; errors: E; message?: string; status?: number };
+
+// Requests without their own signal give up after this long
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Waits before each retry. Only reads are retried, since a repeated POST could save twice.
+const RETRY_DELAYS_MS = [500, 1500];
+
+// Gateway errors while the edge function cold starts or is redeployed
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+const isRead = (init: RequestInit) => ["GET", "HEAD"].includes(init.method ?? "GET");
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const send = async (path: string, init: RequestInit) => {
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = isRead(init) && attempt < RETRY_DELAYS_MS.length;
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        signal: init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${publicAnonKey}`,
+          ...init.headers,
+        },
+      });
+      if (!canRetry || !RETRYABLE_STATUSES.includes(response.status)) {
+        return response;
+      }
+    } catch (err) {
+      // A caller's own signal means they stopped waiting, so don't start over
+      if (!canRetry || init.signal) throw err;
+    }
+    await wait(RETRY_DELAYS_MS[attempt]);
+  }
+};
+
+// Rate limited routes say how many seconds to wait; put that in terms a person can act on
+const rateLimitMessage = (retryAfter: number) => {
+  const minutes = Math.ceil(retryAfter / 60);
+  const wait = !(minutes > 0) ? "a little while" : minutes === 1 ? "a minute" : `about ${minutes} minutes`;
+  return `That's a lot of tries in a short time. Please wait ${wait} and try again.`;
+};
+
+// Bodies follow the types in apiContract.ts; these pick out the part a call returns
+const whole = <T>(data: unknown) => data as T;
+const prop = <T>(key: string) => (data: unknown) => (data as Record<string, T>)[key];
+
+// Call the edge server and normalize field errors / failures
+const request = async <T, E>(
+  path: string,
+  init: RequestInit,
+  pick: (data: unknown) => T,
+): Promise<ApiResult<T, E>> => {
+  try {
+    const response = await send(path, init);
+    const data: unknown = await response.json().catch(() => ({}));
+
+    if (response.ok) {
+      return { ok: true, data: pick(data) };
+    }
+
+    if (response.status === 429 && isRateLimitBody(data)) {
+      return { ok: false, errors: {} as E, message: rateLimitMessage(data.retryAfter), status: 429 };
+    }
+
+    return {
+      ok: false,
+      errors: fieldErrors(data) as E,
+      message: (data as Partial<ErrorBody> | null)?.error ?? `Request failed (${response.status})`,
+      status: response.status,
+    };
+  } catch (err) {
+    console.error(`Error calling ${path}:`, err);
+    return {
+      ok: false,
+      errors: {} as E,
+      message: err instanceof DOMException && err.name === "TimeoutError"
+        ? "The server took too long to respond. Please try again."
+        : "Could not reach the server. Please check your connection and try again.",
+    };
+  }
+};
+
+// POST a JSON body and return the record stored under `recordKey`
+export const postForm = <T, E>(path: string, body: unknown, recordKey: string) =>
+  request<T, E>(path, { method: "POST", body: JSON.stringify(body) }, prop(recordKey));
+
+// Liveness probe; gives up quickly so callers can fall back without a long wait
+export const checkHealth = (timeoutMs = 5000) =>
+  request<string, {}>("/health", { method: "GET", signal: AbortSignal.timeout(timeoutMs) }, prop("status"));
+
+export const submitMentor = (formData: SignupAnswers, guard: SpamGuardFields) =>
+  request<{ record: MentorRecord; codeSent: boolean }, FormErrors>(
+    "/mentors",
+    { method: "POST", body: JSON.stringify({ ...formData, ...guard }) },
+    (data) => {
+      const body = data as { mentor: MentorRecord; codeSent: boolean };
+      return { record: body.mentor, codeSent: body.codeSent };
+    },
+  );
+
+export const submitMentee = (formData: SignupAnswers, guard: SpamGuardFields) =>
+  request<{ record: MenteeRecord; codeSent: boolean }, FormErrors>(
+    "/mentees",
+    { method: "POST", body: JSON.stringify({ ...formData, ...guard }) },
+    (data) => {
+      const body = data as { mentee: MenteeRecord; codeSent: boolean };
+      return { record: body.mentee, codeSent: body.codeSent };
+    },
+  );
+
+// This semester's sign up questions, or another semester's when given
+export const getFormSchema = (kind: SignupFormKind, semester?: string) =>
+  request<FormSchema, {}>(
+    `/form-schema/${kind}${semester ? `?semester=${encodeURIComponent(semester)}` : ""}`,
+    { method: "GET" },
+    prop("schema"),
+  );
+
+export const verifySignup = (kind: SignupKind, id: string, code: string) =>
+  request<VerificationStatus, VerificationErrors>(
+    "/verify",
+    { method: "POST", body: JSON.stringify({ kind, id, code }) },
+    prop("status"),
+  );
+
+export const resendVerificationCode = (kind: SignupKind, id: string) =>
+  request<VerificationStatus, {}>(
+    "/verify/resend",
+    { method: "POST", body: JSON.stringify({ kind, id }) },
+    prop("status"),
+  );
+
+// "My sign-up" endpoints send the portal session in their own header, leaving
+// Authorization for the Supabase anon key
+const portalInit = (token: string, init: RequestInit = { method: "GET" }): RequestInit => ({
+  ...init,
+  headers: { "X-Portal-Session": token },
+});
+
+export const requestPortalCode = (email: string) =>
+  request<string, { email?: string }>(
+    "/my-signup/code",
+    { method: "POST", body: JSON.stringify({ email }) },
+    prop("message"),
+  );
+
+export const openPortalSession = (email: string, code: string) =>
+  request<PortalSession, VerificationErrors>(
+    "/my-signup/session",
+    { method: "POST", body: JSON.stringify({ email, code }) },
+    prop("session"),
+  );
+
+export const closePortalSession = (token: string) =>
+  request<boolean, {}>("/my-signup/sign-out", portalInit(token, { method: "POST" }), prop("signedOut"));
+
+export const getMySignups = (token: string) =>
+  request<PortalSignups, {}>("/my-signup", portalInit(token), whole);
+
+export const updateMySignup = (token: string, signup: PortalSignup) =>
+  request<MentorRecord | MenteeRecord, FormErrors>(
+    `/my-signup/${signup.kind}/${encodeURIComponent(signup.record.id)}`,
+    portalInit(token, { method: "PUT", body: JSON.stringify(signup.record) }),
+    prop("record"),
+  );
+
+export const withdrawMySignup = (token: string, kind: SignupKind, id: string) =>
+  request<string, {}>(
+    `/my-signup/${kind}/${encodeURIComponent(id)}`,
+    portalInit(token, { method: "DELETE" }),
+    prop("withdrawn"),
+  );
+
+// The Speed Dating ballot belongs to the signed in "My sign-up" email
+export const getBallotCandidates = (token: string) =>
+  request<BallotInfo, BallotErrors>("/ballots/candidates", portalInit(token), whole);
+
+export const submitBallot = (token: string, rankings: string[]) =>
+  request<BallotRecord, BallotErrors>(
+    "/ballots",
+    portalInit(token, { method: "POST", body: JSON.stringify({ rankings }) }),
+    prop("ballot"),
+  );
+
+export const getEvents = () =>
+  request<EventRecord[], {}>("/events", { method: "GET" }, prop("events"));
+
+export const getRsvpCounts = () =>
+  request<Record<number, RsvpCounts>, {}>("/events/rsvp-counts", { method: "GET" }, prop("counts"));
+
+export const submitRsvp = (eventId: number, email: string, response: RsvpResponse) =>
+  request<{ rsvp: RsvpEntry; counts: RsvpCounts }, RsvpErrors>(
+    `/events/${eventId}/rsvps`,
+    { method: "POST", body: JSON.stringify({ email, response }) },
+    whole,
+  );
+
+export const checkIn = (eventId: number, formData: CheckInFormData) =>
+  request<{ attendance: AttendanceRecord; alreadyCheckedIn: boolean }, CheckInErrors>(
+    `/events/${eventId}/check-in`,
+    { method: "POST", body: JSON.stringify(formData) },
+    whole,
+  );
+
+export const getLeaderboard = () =>
+  request<LeaderboardEntry[], {}>("/points/leaderboard", { method: "GET" }, prop("leaderboard"));
+
+export const getFamilies = () =>
+  request<FamilySummary[], {}>("/families", { method: "GET" }, prop("families"));
+
+export const getFamily = (id: string) =>
+  request<FamilyPage, {}>(`/families/${encodeURIComponent(id)}`, { method: "GET" }, prop("family"));
+
+export const requestMagicLink = (email: string) =>
+  request<string, { email?: string }>(
+    "/auth/magic-link",
+    { method: "POST", body: JSON.stringify({ email }) },
+    prop("message"),
+  );
+
+// Officer-only endpoints; the Supabase Auth access token is checked by the
+// edge server's requireOfficer middleware
+const officerInit = (accessToken: string, init: RequestInit = { method: "GET" }): RequestInit => ({
+  ...init,
+  headers: { Authorization: `Bearer ${accessToken}` },
+});
+
+// Cohort the dashboard is viewing; null means the current one
+let activeCohortId: string | null = null;
+
+export const setActiveCohort = (id: string | null) => {
+  activeCohortId = id;
+};
+
+// Officer endpoints over one cohort's records
+const adminInit = (accessToken: string, init: RequestInit = { method: "GET" }): RequestInit => ({
+  ...init,
+  headers: {
+    Authorization: `Bearer ${accessToken}`,
+    ...(activeCohortId ? { "X-Cohort": activeCohortId } : {}),
+  },
+});
+
+export const getCurrentOfficer = (accessToken: string) =>
+  request<Officer, {}>("/admin/me", officerInit(accessToken), prop("officer"));
+
+export const getAdminMentors = (accessToken: string) =>
+  request<MentorRecord[], {}>("/admin/mentors", adminInit(accessToken), prop("mentors"));
+
+export const getAdminMentees = (accessToken: string) =>
+  request<MenteeRecord[], {}>("/admin/mentees", adminInit(accessToken), prop("mentees"));
+
+export const deleteMentor = (accessToken: string, id: string) =>
+  request<string, {}>(`/admin/mentors/${encodeURIComponent(id)}`, adminInit(accessToken, { method: "DELETE" }), prop("deleted"));
+
+export const deleteMentee = (accessToken: string, id: string) =>
+  request<string, {}>(`/admin/mentees/${encodeURIComponent(id)}`, adminInit(accessToken, { method: "DELETE" }), prop("deleted"));
+
+export const getSignupHistory = (accessToken: string, kind: SignupKind, id: string) =>
+  request<SignupChange[], {}>(
+    `/admin/${kind}s/${encodeURIComponent(id)}/history`,
+    adminInit(accessToken),
+    prop("history"),
+  );
+
+export const getAdminMatches = (accessToken: string) =>
+  request<{ matches: MatchRecord[]; run: MatchRun | null }, {}>(
+    "/admin/matches",
+    adminInit(accessToken),
+    whole,
+  );
+
+export const runMatching = (accessToken: string, capacity?: number) =>
+  request<{ matches: MatchRecord[]; run: MatchRun }, {}>(
+    "/matches/run",
+    adminInit(accessToken, { method: "POST", body: JSON.stringify({ capacity }) }),
+    whole,
+  );
+
+export const getOfficers = (accessToken: string) =>
+  request<Officer[], {}>("/admin/officers", officerInit(accessToken), prop("officers"));
+
+export const saveOfficer = (accessToken: string, email: string, role: OfficerRole) =>
+  request<Officer, { email?: string; role?: string }>(
+    `/admin/officers/${encodeURIComponent(email)}`,
+    officerInit(accessToken, { method: "PUT", body: JSON.stringify({ role }) }),
+    prop("officer"),
+  );
+
+export const removeOfficer = (accessToken: string, email: string) =>
+  request<string, {}>(`/admin/officers/${encodeURIComponent(email)}`, officerInit(accessToken, { method: "DELETE" }), prop("deleted"));
+
+export const createEvent = (accessToken: string, formData: EventFormData) =>
+  request<EventRecord, EventErrors>(
+    "/events",
+    adminInit(accessToken, { method: "POST", body: JSON.stringify(formData) }),
+    prop("event"),
+  );
+
+export const updateEvent = (accessToken: string, id: number, formData: EventFormData) =>
+  request<EventRecord, EventErrors>(
+    `/events/${id}`,
+    adminInit(accessToken, { method: "PUT", body: JSON.stringify(formData) }),
+    prop("event"),
+  );
+
+export const getEventRsvps = (accessToken: string, eventId: number) =>
+  request<{ rsvps: RsvpEntry[]; counts: RsvpCounts }, {}>(`/events/${eventId}/rsvps`, adminInit(accessToken), whole);
+
+export const getCheckInCode = (accessToken: string, eventId: number) =>
+  request<string, {}>(`/events/${eventId}/check-in-code`, adminInit(accessToken), prop("code"));
+
+export const getEventAttendance = (accessToken: string, eventId: number) =>
+  request<AttendanceRecord[], {}>(`/events/${eventId}/attendance`, adminInit(accessToken), prop("attendance"));
+
+export const cancelEvent = (accessToken: string, id: number) =>
+  request<EventRecord, {}>(`/events/${id}/cancel`, adminInit(accessToken, { method: "POST" }), prop("event"));
+
+export const reinstateEvent = (accessToken: string, id: number) =>
+  request<EventRecord, {}>(`/events/${id}/reinstate`, adminInit(accessToken, { method: "POST" }), prop("event"));
+
+export const deleteEvent = (accessToken: string, id: number) =>
+  request<number, {}>(`/events/${id}`, adminInit(accessToken, { method: "DELETE" }), prop("deleted"));
+
+export const getPointsConfig = (accessToken: string) =>
+  request<PointsConfig, {}>("/points/config", adminInit(accessToken), prop("config"));
+
+export const savePointsConfig = (accessToken: string, config: PointsConfig) =>
+  request<PointsConfig, PointsConfigErrors>(
+    "/points/config",
+    adminInit(accessToken, { method: "PUT", body: JSON.stringify(config) }),
+    prop("config"),
+  );
+
+export const saveFormSchema = (accessToken: string, kind: SignupFormKind, schema: FormSchema) =>
+  request<FormSchema, FormSchemaErrors>(
+    `/form-schema/${kind}`,
+    adminInit(accessToken, { method: "PUT", body: JSON.stringify(schema) }),
+    prop("schema"),
+  );
+
+export const getAdminFamilies = (accessToken: string) =>
+  request<FamilyRecord[], {}>("/admin/families", adminInit(accessToken), prop("families"));
+
+export const createFamily = (accessToken: string, formData: FamilyFormData) =>
+  request<FamilyRecord, FamilyErrors>(
+    "/families",
+    adminInit(accessToken, { method: "POST", body: JSON.stringify(formData) }),
+    prop("family"),
+  );
+
+export const updateFamily = (accessToken: string, id: string, formData: FamilyFormData) =>
+  request<FamilyRecord, FamilyErrors>(
+    `/families/${encodeURIComponent(id)}`,
+    adminInit(accessToken, { method: "PUT", body: JSON.stringify(formData) }),
+    prop("family"),
+  );
+
+export const deleteFamily = (accessToken: string, id: string) =>
+  request<string, {}>(`/families/${encodeURIComponent(id)}`, adminInit(accessToken, { method: "DELETE" }), prop("deleted"));
+
+// Recreate the viewed cohort's email and event lookup indexes, e.g. after they drift
+export const rebuildIndexes = (accessToken: string) =>
+  request<Record<string, { records: number; entries: number; removed: number }>, {}>(
+    "/admin/indexes/rebuild",
+    adminInit(accessToken, { method: "POST" }),
+    prop("rebuilt"),
+  );
+
+export const getCohorts = () =>
+  request<CohortRegistry, {}>("/cohorts", { method: "GET" }, whole);
+
+export const createCohort = (accessToken: string, name: string) =>
+  request<Cohort, CohortErrors>(
+    "/cohorts",
+    officerInit(accessToken, { method: "POST", body: JSON.stringify({ name }) }),
+    prop("cohort"),
+  );
+
+export const setCurrentCohort = (accessToken: string, id: string) =>
+  request<string, {}>(
+    `/cohorts/${encodeURIComponent(id)}/current`,
+    officerInit(accessToken, { method: "POST" }),
+    prop("currentId"),
+  );
+
+export const setCohortDeadlines = (accessToken: string, id: string, days: CohortDeadlineDays) =>
+  request<Cohort, CohortDeadlineErrors>(
+    `/cohorts/${encodeURIComponent(id)}/deadlines`,
+    officerInit(accessToken, { method: "PUT", body: JSON.stringify(days) }),
+    prop("cohort"),
+  );
+
+export const archiveCohort = (accessToken: string, id: string) =>
+  request<Cohort, {}>(
+    `/cohorts/${encodeURIComponent(id)}/archive`,
+    officerInit(accessToken, { method: "POST" }),
+    prop("cohort"),
+  );
@@ -0,0 +1,160 @@
+// Types and names shared by the client (api.ts) and the edge server
+// The server is deployed as the make-server function, and every route sits under its name.
+import type { FormData, MenteeFormData } from "./formValidation.ts";
+
+export const FUNCTION_NAME = "make-server-27ad6e68";
+
+// Where a Supabase project serves its edge functions
+export const functionsUrl = (projectId: string) => `https://${projectId}.supabase.co/functions/v1`;
+
+export type SignupKind = "mentor" | "mentee";
+
+// Sign ups stay "pending" until the student enters the code mailed to them
+export type VerificationStatus = "pending" | "verified";
+
+// Records the routes send back
+export interface MentorRecord extends FormData {
+  id: string;
+  status?: VerificationStatus;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt?: string;
+  version?: number; // Bumped by every save; sent back with edits so stale ones are refused
+}
+
+export interface MenteeRecord extends MenteeFormData {
+  id: string;
+  status?: VerificationStatus;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt?: string;
+  version?: number;
+}
+
+// "My sign-up" session, opened with a code mailed to the student
+export interface PortalSession {
+  token: string;
+  email: string;
+  expiresAt: string;
+}
+
+export type PortalSignup =
+  | { kind: "mentor"; record: MentorRecord }
+  | { kind: "mentee"; record: MenteeRecord };
+
+// A mentor sign up from an earlier cohort, offered to returning mentors as a starting point
+export interface PreviousSignup {
+  cohort: string;
+  record: MentorRecord;
+}
+
+export interface PortalSignups {
+  signups: PortalSignup[];
+  previous: PreviousSignup[];
+  cohort: string; // Name of the cohort new sign ups join
+  deadline?: string; // Changes close then; none while the cohort hasn't set one
+  editable: boolean;
+}
+
+export type SignupChangeAction = "updated" | "withdrawn";
+
+export interface SignupChange {
+  kind: SignupKind;
+  signupId: string;
+  action: SignupChangeAction;
+  changedAt: string;
+  changedBy: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown> | null;
+}
+
+export interface BallotCandidate {
+  id: string;
+  name: string;
+  major: string;
+}
+
+export interface BallotInfo {
+  role: "mentor" | "mentee";
+  deadline?: string; // None while the cohort hasn't set one
+  open: boolean;
+  candidates: BallotCandidate[];
+  rankings: string[];
+}
+
+export interface BallotRecord {
+  email: string;
+  role: "mentor" | "mentee";
+  participantId: string;
+  rankings: string[];
+  submittedAt: string;
+}
+
+export interface MatchRecord {
+  id: string;
+  mentorId: string;
+  menteeId: string;
+  score: number;
+  reasons: string[];
+  status: "proposed";
+  runId: string;
+  createdAt: string;
+}
+
+export interface MatchRun {
+  id: string;
+  createdAt: string;
+  capacity: number;
+  matchCount: number;
+  unmatchedMenteeIds: string[];
+}
+
+export type OfficerRole = "officer" | "eboard";
+
+export interface Officer {
+  email: string;
+  role: OfficerRole;
+  addedAt: string;
+}
+
+// A field's message, or messages for the items of a list field keyed by item id
+export type FieldError = string | Record<string, string>;
+
+// Body of every failed response. On a 400 "Validation failed", errors maps each form field to
+// the message shown under it.
+export interface ErrorBody {
+  error: string;
+  errors?: Record<string, FieldError>;
+}
+
+const isFieldError = (value: unknown): value is FieldError =>
+  typeof value === "string" ||
+  (typeof value === "object" && value !== null && Object.values(value).every((item) => typeof item === "string"));
+
+// Keeps only the field messages from an untrusted error body
+export const fieldErrors = (body: unknown): Record<string, FieldError> => {
+  const errors = (body as Partial<ErrorBody> | null)?.errors;
+  if (!errors || typeof errors !== "object") return {};
+  return Object.fromEntries(Object.entries(errors).filter(([, message]) => isFieldError(message)));
+};
+
+// Sent with the sign up forms so the server can turn away obvious bots: a hidden field people
+// never see and leave empty, and how long the form was open before it was submitted. The
+// leading underscore keeps them clear of question ids (see fieldIdFromLabel).
+export const HONEYPOT_FIELD = "_website";
+export const FILL_TIME_FIELD = "_fillMs";
+export const MIN_FILL_MS = 3000;
+
+export interface SpamGuardFields {
+  [HONEYPOT_FIELD]: string;
+  [FILL_TIME_FIELD]: number;
+}
+
+// Body of a 429 from a rate limited route; retryAfter is in seconds, like the Retry-After header
+export interface RateLimitBody extends ErrorBody {
+  retryAfter: number;
+}
+
+// Tells a rate limit apart from other 429s, like too many wrong verification codes
+export const isRateLimitBody = (body: unknown): body is RateLimitBody =>
+  typeof (body as Partial<RateLimitBody> | null)?.retryAfter === "number";
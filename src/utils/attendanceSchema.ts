@@ -0,0 +1,63 @@
+// Check-in schema shared by the client and the edge server
+import { validateEmail } from "./formValidation.ts";
+import type { EventRecord } from "./eventSchema.ts";
+
+// Check-in opens a little before the event starts and stays open a little after it ends
+export const CHECK_IN_OPENS_BEFORE_MINUTES = 30;
+export const CHECK_IN_CLOSES_AFTER_MINUTES = 30;
+
+export type CheckInWindowStatus = "upcoming" | "open" | "closed";
+
+export interface CheckInFormData {
+  email: string;
+  name: string;
+  code: string; // From the QR code, so only people at the event can check in
+}
+
+export interface CheckInErrors {
+  email?: string;
+  name?: string;
+  code?: string;
+}
+
+export interface AttendanceRecord {
+  eventId: number;
+  email: string;
+  name: string;
+  checkedInAt: string;
+}
+
+export const checkInWindow = (event: Pick<EventRecord, "startsAt" | "endsAt">) => ({
+  opensAt: new Date(Date.parse(event.startsAt) - CHECK_IN_OPENS_BEFORE_MINUTES * 60 * 1000),
+  closesAt: new Date(Date.parse(event.endsAt) + CHECK_IN_CLOSES_AFTER_MINUTES * 60 * 1000),
+});
+
+export const checkInWindowStatus = (
+  event: Pick<EventRecord, "startsAt" | "endsAt">,
+  now = new Date(),
+): CheckInWindowStatus => {
+  const { opensAt, closesAt } = checkInWindow(event);
+  if (now < opensAt) return "upcoming";
+  if (now > closesAt) return "closed";
+  return "open";
+};
+
+export const validateCheckIn = (formData: CheckInFormData): CheckInErrors => {
+  const errors: CheckInErrors = {};
+
+  if (!formData.email.trim()) {
+    errors.email = "RIT Email is required";
+  } else if (!validateEmail(formData.email)) {
+    errors.email = "Please enter a valid RIT email address (@rit.edu)";
+  }
+
+  if (!formData.name.trim()) {
+    errors.name = "Name is required";
+  }
+
+  if (!formData.code.trim()) {
+    errors.code = "Scan the QR code at the event to check in";
+  }
+
+  return errors;
+};
@@ -0,0 +1,74 @@
+// Weekly availability shared by the sign up forms, matching and the officer dashboard
+// A student's availability is a list of one-hour slots such as "tue-18" (Tuesday 6–7 PM),
+// in RIT's local (Eastern) time.
+
+export const AVAILABILITY_DAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type AvailabilityDay = typeof AVAILABILITY_DAYS[number];
+
+export const DAY_LABELS: Record<AvailabilityDay, string> = {
+  mon: "Mon",
+  tue: "Tue",
+  wed: "Wed",
+  thu: "Thu",
+  fri: "Fri",
+  sat: "Sat",
+  sun: "Sun",
+};
+
+// Start hours of the bookable slots: 8 AM through the 9–10 PM slot
+export const AVAILABILITY_HOURS = Array.from({ length: 14 }, (_, index) => index + 8);
+
+export const slotKey = (day: AvailabilityDay, hour: number) => `${day}-${hour}`;
+
+const isSlotKey = (value: string) => {
+  const [day, hour] = value.split("-");
+  return (AVAILABILITY_DAYS as readonly string[]).includes(day) && AVAILABILITY_HOURS.includes(Number(hour)) &&
+    String(Number(hour)) === hour;
+};
+
+// Coerce untrusted input into sorted, de-duplicated slot keys. Anything else (including the
+// free-text answers from before the grid existed) counts as no availability given.
+export const parseAvailability = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const slots = new Set(value.map(String).filter(isSlotKey));
+  return AVAILABILITY_DAYS.flatMap((day) =>
+    AVAILABILITY_HOURS.map((hour) => slotKey(day, hour)).filter((slot) => slots.has(slot))
+  );
+};
+
+// Slots two people are both free
+export const sharedSlots = (a: unknown, b: unknown): string[] => {
+  const other = new Set(parseAvailability(b));
+  return parseAvailability(a).filter((slot) => other.has(slot));
+};
+
+// Hours a week two people are both free
+export const sharedHours = (a: unknown, b: unknown): number => sharedSlots(a, b).length;
+
+const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+};
+
+// Readable summary, e.g. "Mon 6 PM–9 PM; Sat 10 AM–2 PM"
+export const summarizeAvailability = (value: unknown): string => {
+  const slots = new Set(parseAvailability(value));
+
+  return AVAILABILITY_DAYS.flatMap((day) => {
+    const ranges: string[] = [];
+    let start: number | null = null;
+
+    // One past the last slot closes a range that runs to the end of the day
+    for (const hour of [...AVAILABILITY_HOURS, AVAILABILITY_HOURS[AVAILABILITY_HOURS.length - 1] + 1]) {
+      const free = slots.has(slotKey(day, hour));
+      if (free && start === null) {
+        start = hour;
+      } else if (!free && start !== null) {
+        ranges.push(`${formatHour(start)}–${formatHour(hour)}`);
+        start = null;
+      }
+    }
+
+    return ranges.length > 0 ? [`${DAY_LABELS[day]} ${ranges.join(", ")}`] : [];
+  }).join("; ");
+};
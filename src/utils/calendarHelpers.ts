@@ -1,55 +1,43 @@
-import { getEventsForDate, getSortedEvents } from "../data/events";
+import { Event, filterEventsForDate, sortEvents } from "../data/events";
+import { EventRecord } from "./eventSchema";
+import { buildCalendar } from "./icalendar";
 
-// Helper function to parse start time from time string
-export const parseStartTime = (timeString: string): number => {
-  // Extract start time from strings like "5:00 PM - 7:00 PM"
-  const startTime = timeString.split(' - ')[0].trim();
-  const [time, period] = startTime.split(' ');
-  const [hours, minutes] = time.split(':').map(Number);
-  
-  let hour24 = hours;
-  if (period === 'PM' && hours !== 12) {
-    hour24 += 12;
-  } else if (period === 'AM' && hours === 12) {
-    hour24 = 0;
-  }
-  
-  return hour24 * 60 + minutes; // Return minutes since midnight
-};
+// Stand-in entry for the event details card when there is nothing real to show
+export const placeholderEvent = (title: string, description: string) => ({
+  title,
+  time: "TBD",
+  location: "TBD",
+  description,
+  event: undefined as Event | undefined
+});
 
-// Get all events for the selected date using the new data structure
-export const getAllEventsForDate = (date: Date) => {
-  const eventsForDate = getEventsForDate(date);
+// Get all events for the selected date from the loaded events
+export const getAllEventsForDate = (events: Event[], date: Date) => {
+  const eventsForDate = filterEventsForDate(events, date);
   
   if (eventsForDate.length === 0) {
-    return [
-      {
-        title: "No Event",
-        time: "TBD",
-        location: "TBD",
-        description: "No events scheduled for this date."
-      }
-    ];
+    return [placeholderEvent("No Event", "No events scheduled for this date.")];
   }
 
-  // Convert to the format expected by the component and sort by start time
-  return eventsForDate.map(event => ({
-    title: event.title,
+  // Convert to the format expected by the component, sorted by start time
+  return sortEvents(eventsForDate).map(event => ({
+    title: event.status === "cancelled" ? `${event.title} (Cancelled)` : event.title,
     time: event.time,
     location: event.location,
-    description: event.description
-  })).sort((a, b) => {
-    // Handle edge case where time is "TBD"
-    if (a.time === "TBD" || b.time === "TBD") return 0;
-    return parseStartTime(a.time) - parseStartTime(b.time);
-  });
+    description: event.description,
+    event
+  }));
 };
 
-// Format the selected date to match homepage style
-export const formatDate = (date: Date) => {
-  return date.toLocaleDateString('en-US', { 
-    month: 'long', 
-    day: 'numeric',
-    year: 'numeric'
-  });
-};
\ No newline at end of file
+// Download a single event as an .ics file for the visitor's calendar app
+export const downloadEventCalendar = (event: EventRecord) => {
+  const blob = new Blob([buildCalendar([event], event.title)], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${event.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "event"}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,84 @@
+// Cohorts: one semester's sign ups, matches, events and points, kept apart from other semesters
+// Shared by the client and the edge server.
+import { isSemester } from "./formSchema.ts";
+import { DEFAULT_TIME_ZONE, zonedTimeToUtc } from "./eventFormatting.ts";
+
+export type CohortStatus = "active" | "archived";
+
+export interface Cohort {
+  id: string; // e.g. "fall-2025"
+  name: string; // e.g. "Fall 2025"
+  status: CohortStatus;
+  createdAt: string;
+  archivedAt?: string;
+  // Speed Dating ballots close, and "My sign-up" stops taking changes, at these instants.
+  // Until officers set one, that part of the cohort stays open.
+  ballotDeadline?: string;
+  matchingDeadline?: string;
+}
+
+// Cohorts and which one new sign ups join
+export interface CohortRegistry {
+  currentId: string;
+  cohorts: Cohort[];
+}
+
+export interface CohortErrors {
+  name?: string;
+}
+
+// Deadlines as the dashboard edits them: a day, closing at the end of it Eastern time
+export interface CohortDeadlineDays {
+  ballotDay: string; // YYYY-MM-DD, or "" for no deadline
+  matchingDay: string;
+}
+
+export interface CohortDeadlineErrors {
+  ballotDay?: string;
+  matchingDay?: string;
+}
+
+// Fall 2025 ran before cohorts existed; its records keep their original keys
+export const LEGACY_COHORT: Cohort = {
+  id: "fall-2025",
+  name: "Fall 2025",
+  status: "active",
+  createdAt: "2025-08-01T00:00:00.000Z",
+  ballotDeadline: "2025-09-10T23:59:59-04:00",
+  matchingDeadline: "2025-09-12T23:59:59-04:00",
+};
+
+export const cohortIdFromName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, "-");
+
+export const validateCohortName = (name: string, existing: Cohort[]): CohortErrors => {
+  const errors: CohortErrors = {};
+  if (!isSemester(name.trim())) {
+    errors.name = "Cohort name must look like \"Spring 2026\"";
+  } else if (existing.some((cohort) => cohort.id === cohortIdFromName(name))) {
+    errors.name = "That cohort already exists";
+  }
+  return errors;
+};
+
+// Whether something that closes at deadline is still open
+export const isBeforeDeadline = (deadline: string | undefined, now = Date.now()) =>
+  !deadline || now <= Date.parse(deadline);
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const validateCohortDeadlines = ({ ballotDay, matchingDay }: CohortDeadlineDays): CohortDeadlineErrors => {
+  const errors: CohortDeadlineErrors = {};
+  if (ballotDay && !DAY_PATTERN.test(ballotDay)) {
+    errors.ballotDay = "Pick a date";
+  }
+  if (matchingDay && !DAY_PATTERN.test(matchingDay)) {
+    errors.matchingDay = "Pick a date";
+  } else if (ballotDay && matchingDay && matchingDay < ballotDay) {
+    errors.matchingDay = "Matching can't start before ballots close";
+  }
+  return errors;
+};
+
+// The last minute of the day in Eastern time, or undefined for no deadline
+export const deadlineFromDay = (day: string) =>
+  day ? zonedTimeToUtc(day, "23:59", DEFAULT_TIME_ZONE) : undefined;
@@ -0,0 +1,21 @@
+// Quote a CSV cell when it contains a delimiter, quote or line break
+const escapeCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+// Save rows as a CSV file in the browser
+export const downloadCsv = (filename: string, rows: (string | number)[][]) => {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
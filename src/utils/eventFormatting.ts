@@ -0,0 +1,119 @@
+// Display strings for events, derived from their start/end instants and time zone
+// Shared by the client and the edge server, so it has no imports.
+
+// Where club events happen unless an officer picks otherwise
+export const DEFAULT_TIME_ZONE = "America/New_York";
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall clock reading of an instant in the given time zone
+export const zonedParts = (instant: Date | string, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+  };
+};
+
+// Instant (ISO, UTC) for a wall clock day and time in the given time zone
+export const zonedTimeToUtc = (day: string, clock: string, timeZone: string): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = clock.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant;
+  };
+
+  // The second pass corrects the offset when the first guess lands across a DST change
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess)).toISOString();
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar day of an instant in the given time zone, as "YYYY-MM-DD"
+export const zonedDay = (instant: Date | string, timeZone: string): string => {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Time input value ("17:00") of an instant in the given time zone
+export const zonedClock = (instant: Date | string, timeZone: string): string => {
+  const { hour, minute } = zonedParts(instant, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+// Local calendar day as "YYYY-MM-DD"
+export const toDayString = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Time input value ("17:00") in the site's display style ("5:00 PM")
+export const formatClockTime = (value: string): string => {
+  const [hours, minutes] = value.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hour12}:${pad(minutes)} ${period}`;
+};
+
+// Event card time style, e.g. "5:00 PM - 7:00 PM"
+export const formatEventTime = (startsAt: string, endsAt: string, timeZone: string): string =>
+  `${formatClockTime(zonedClock(startsAt, timeZone))} - ${formatClockTime(zonedClock(endsAt, timeZone))}`;
+
+const ordinalSuffix = (day: number): string => {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] ?? 'th';
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Event card date style, e.g. "August 29th, 2025"
+export const formatEventDate = (startsAt: string, timeZone: string): string => {
+  const { year, month, day } = zonedParts(startsAt, timeZone);
+  return `${MONTH_NAMES[month - 1]} ${day}${ordinalSuffix(day)}, ${year}`;
+};
+
+// Same style for a local calendar date, e.g. the editor's date picker
+export const formatLongDate = (date: Date): string =>
+  `${MONTH_NAMES[date.getMonth()]} ${date.getDate()}${ordinalSuffix(date.getDate())}, ${date.getFullYear()}`;
+
+// Format the selected date to match homepage style
+export const formatDate = (date: Date) => {
+  return date.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
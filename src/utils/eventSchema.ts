@@ -0,0 +1,100 @@
+// Event schema shared by the client and the edge server
+// Events store when they happen as ISO instants plus the IANA time zone they are
+// held in; display strings come from utils/eventFormatting.ts.
+import { isValidTimeZone } from "./eventFormatting.ts";
+
+// Event types decide how many points attending is worth
+export type EventType = "gbm" | "social" | "cultural" | "mentorship" | "workshop" | "other";
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  gbm: "General Body Meeting",
+  social: "Social",
+  cultural: "Cultural",
+  mentorship: "Mentor/Mentee",
+  workshop: "Workshop",
+  other: "Other",
+};
+
+export const isEventType = (value: unknown): value is EventType =>
+  typeof value === "string" && value in EVENT_TYPE_LABELS;
+
+export interface EventFormData {
+  title: string;
+  type?: EventType; // Treated as "other" when missing
+  startsAt: string; // ISO instant, e.g. "2025-08-29T21:00:00.000Z"
+  endsAt: string;
+  timeZone: string; // IANA zone, e.g. "America/New_York"
+  location: string;
+  description: string;
+  link?: string;
+  capacity?: number; // RSVPs past this many "going" join a waitlist
+}
+
+// Cancelled events stay listed (marked as cancelled) so nobody shows up to an empty room
+export type EventStatus = "scheduled" | "cancelled";
+
+export interface EventRecord extends EventFormData {
+  id: number;
+  status?: EventStatus;
+  createdAt?: string;
+  updatedAt?: string;
+  sequence?: number; // Bumped by every edit or status change, for the calendar SEQUENCE
+}
+
+export interface EventErrors {
+  title?: string;
+  type?: string;
+  startsAt?: string;
+  endsAt?: string;
+  timeZone?: string;
+  location?: string;
+  description?: string;
+  link?: string;
+  capacity?: string;
+}
+
+const isInstant = (value: string) => value !== "" && !Number.isNaN(Date.parse(value));
+
+export const validateEvent = (formData: EventFormData): EventErrors => {
+  const errors: EventErrors = {};
+
+  if (!formData.title.trim()) {
+    errors.title = "Title is required";
+  }
+
+  if (formData.type !== undefined && !isEventType(formData.type)) {
+    errors.type = "Please choose an event type";
+  }
+
+  if (!isInstant(formData.startsAt)) {
+    errors.startsAt = "Start date and time are required";
+  }
+
+  if (!isInstant(formData.endsAt)) {
+    errors.endsAt = "End time is required";
+  } else if (isInstant(formData.startsAt) && Date.parse(formData.endsAt) <= Date.parse(formData.startsAt)) {
+    errors.endsAt = "End time must be after the start time";
+  }
+
+  if (!isValidTimeZone(formData.timeZone)) {
+    errors.timeZone = "Please choose a valid time zone";
+  }
+
+  if (!formData.location.trim()) {
+    errors.location = "Location is required";
+  }
+
+  if (!formData.description.trim()) {
+    errors.description = "Description is required";
+  }
+
+  if (formData.link && !/^https?:\/\/\S+$/.test(formData.link.trim())) {
+    errors.link = "Link must start with http:// or https://";
+  }
+
+  if (formData.capacity !== undefined && (!Number.isInteger(formData.capacity) || formData.capacity < 1)) {
+    errors.capacity = "Capacity must be a whole number of at least 1";
+  }
+
+  return errors;
+};
@@ -0,0 +1,63 @@
+// Mentor families: officer-assigned groups of matched mentor/mentee pairs
+// Shared by the client and the edge server.
+
+export interface FamilyFormData {
+  name: string;
+  leadMentorId: string;
+  matchIds: string[]; // `match:<id>` pairs that belong to the family
+}
+
+export interface FamilyRecord extends FamilyFormData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FamilyErrors {
+  name?: string;
+  leadMentorId?: string;
+  matchIds?: string;
+}
+
+// Public family page: names and points only, no contact details
+export interface FamilyMember {
+  name: string;
+  role: "mentor" | "mentee";
+  isLead: boolean;
+  points: number;
+  eventsAttended: number;
+}
+
+export interface FamilySummary {
+  id: string;
+  name: string;
+  memberCount: number;
+  points: number;
+}
+
+export interface FamilyPage {
+  id: string;
+  name: string;
+  members: FamilyMember[];
+  points: number;
+}
+
+export const validateFamily = (formData: FamilyFormData): FamilyErrors => {
+  const errors: FamilyErrors = {};
+
+  if (!formData.name.trim()) {
+    errors.name = "Family name is required";
+  } else if (formData.name.trim().length > 60) {
+    errors.name = "Family name must be 60 characters or fewer";
+  }
+
+  if (formData.matchIds.length === 0) {
+    errors.matchIds = "Add at least one mentor/mentee pair";
+  }
+
+  if (!formData.leadMentorId) {
+    errors.leadMentorId = "Choose a lead mentor";
+  }
+
+  return errors;
+};
@@ -0,0 +1,343 @@
+// Sign up form schema shared by the client and the edge server
+// Each semester's mentor and mentee questions are a list of fields. The same list drives
+// the rendered form, client-side validation and the server's validation of submissions.
+import { validateEmail, type FormErrors } from "./formValidation.ts";
+import { YEAR_OPTIONS } from "../constants/formConstants.ts";
+import { parseAvailability, summarizeAvailability } from "./availability.ts";
+
+export type FieldType = "text" | "textarea" | "select" | "multi-select" | "checkbox" | "availability";
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: "Short answer",
+  textarea: "Paragraph",
+  select: "Dropdown",
+  "multi-select": "Checkboxes (pick any)",
+  checkbox: "Single checkbox",
+  availability: "Weekly availability grid",
+};
+
+// Validators are stored by name so officers can attach them from the dashboard
+export type ValidatorRule = "ritEmail" | "minLength" | "maxLength";
+
+export interface FieldValidator {
+  rule: ValidatorRule;
+  value?: number; // Character count for minLength and maxLength
+  message?: string;
+}
+
+export interface FormField {
+  id: string; // Answer key on the stored sign up
+  type: FieldType;
+  label: string;
+  required: boolean;
+  requiredMessage?: string;
+  placeholder?: string;
+  helpText?: string;
+  options?: string[]; // select and multi-select
+  validators?: FieldValidator[];
+  section?: string; // Step title on the multi-step mentor form
+  // Fields other features read (matching, sign in, the dashboard); their id, type,
+  // required flag, options and validators can't be changed
+  locked?: boolean;
+}
+
+export type SignupFormKind = "mentor" | "mentee";
+
+export interface FormSchema {
+  semester: string; // e.g. "Fall 2025"
+  fields: FormField[];
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type FieldValue = string | string[] | boolean;
+export type SignupAnswers = Record<string, FieldValue>;
+
+const COMMON_FIELDS: FormField[] = [
+  {
+    id: "email",
+    type: "text",
+    label: "RIT Email",
+    required: true,
+    requiredMessage: "RIT Email is required",
+    placeholder: "abc1234@rit.edu",
+    validators: [{ rule: "ritEmail" }],
+    section: "About you",
+    locked: true,
+  },
+  {
+    id: "name",
+    type: "text",
+    label: "Full Name",
+    required: true,
+    requiredMessage: "Name is required",
+    placeholder: "Enter your full name",
+    section: "About you",
+    locked: true,
+  },
+  {
+    id: "major",
+    type: "text",
+    label: "Major",
+    required: true,
+    requiredMessage: "Major is required",
+    placeholder: "e.g., Computer Science, Business, Engineering",
+    section: "About you",
+    locked: true,
+  },
+  {
+    id: "year",
+    type: "select",
+    label: "Year",
+    required: true,
+    requiredMessage: "Year is required",
+    placeholder: "Select your year",
+    options: YEAR_OPTIONS,
+    section: "About you",
+    locked: true,
+  },
+];
+
+const AVAILABILITY_FIELD: FormField = {
+  id: "availability",
+  type: "availability",
+  label: "When are you usually free to meet?",
+  required: true,
+  requiredMessage: "Please mark at least one time you're usually free to meet",
+  helpText: "Drag across the times you're free most weeks (Eastern time).",
+  locked: true,
+};
+
+const HOBBIES_FIELD: FormField = {
+  id: "hobbies",
+  type: "textarea",
+  label: "What are some of your hobbies?",
+  required: true,
+  requiredMessage: "Please share some of your hobbies",
+  placeholder: "Tell us about your interests and hobbies...",
+  locked: true,
+};
+
+export const DEFAULT_FORM_FIELDS: Record<SignupFormKind, FormField[]> = {
+  mentor: [
+    ...COMMON_FIELDS,
+    {
+      id: "mentorGoals",
+      type: "textarea",
+      label: "What do you hope to get out of being a mentor?",
+      required: true,
+      requiredMessage: "Please describe what you hope to get out of being a mentor",
+      placeholder: "Share your goals and what you hope to achieve as a mentor...",
+      section: "Goals",
+      locked: true,
+    },
+    { ...HOBBIES_FIELD, section: "Goals" },
+    { ...AVAILABILITY_FIELD, section: "Availability" },
+  ],
+  mentee: [
+    ...COMMON_FIELDS,
+    {
+      id: "helpWanted",
+      type: "textarea",
+      label: "What would you like help with?",
+      required: true,
+      requiredMessage: "Please describe what you would like help with",
+      placeholder: "Classes, adjusting to RIT, internships, finding community...",
+      locked: true,
+    },
+    {
+      id: "mentorTraits",
+      type: "textarea",
+      label: "What are you looking for in a mentor?",
+      required: true,
+      requiredMessage: "Please share what you are looking for in a mentor",
+      placeholder: "Same major, similar hobbies, outgoing, a good listener...",
+      locked: true,
+    },
+    HOBBIES_FIELD,
+    AVAILABILITY_FIELD,
+  ],
+};
+
+export const isSignupFormKind = (value: unknown): value is SignupFormKind =>
+  value === "mentor" || value === "mentee";
+
+// Semesters run Spring then Fall
+export const nextSemester = (semester: string): string => {
+  const [term, year] = semester.split(" ");
+  return term === "Spring" ? `Fall ${year}` : `Spring ${Number(year) + 1}`;
+};
+
+export const isSemester = (value: string) => /^(Spring|Fall) \d{4}$/.test(value);
+
+// Officers can reword a locked question but not change how it is answered. Locked
+// questions missing from a saved schema (say, one locked after it was saved) are added back.
+export const enforceLockedFields = (kind: SignupFormKind, fields: FormField[]): FormField[] => {
+  const enforced = fields.map(({ locked: _, ...field }) => {
+    const original = DEFAULT_FORM_FIELDS[kind].find((candidate) => candidate.locked && candidate.id === field.id);
+    return original
+      ? {
+        ...field,
+        type: original.type,
+        required: original.required,
+        options: original.options,
+        validators: original.validators,
+        locked: true,
+      }
+      : field;
+  });
+
+  const missing = DEFAULT_FORM_FIELDS[kind].filter((field) =>
+    field.locked && !enforced.some((candidate) => candidate.id === field.id)
+  );
+  return [...enforced, ...missing];
+};
+
+export const emptyAnswer = (field: FormField): FieldValue => {
+  if (field.type === "multi-select" || field.type === "availability") return [];
+  if (field.type === "checkbox") return false;
+  return "";
+};
+
+export const emptyAnswers = (fields: FormField[]): SignupAnswers =>
+  Object.fromEntries(fields.map((field) => [field.id, emptyAnswer(field)]));
+
+// Coerce untrusted input (a request body or a stored record) into answers for these fields.
+// Unknown keys are dropped and multi-select picks outside the options are ignored.
+export const coerceAnswers = (fields: FormField[], input: Record<string, unknown>): SignupAnswers =>
+  Object.fromEntries(fields.map((field) => {
+    const value = input[field.id];
+    switch (field.type) {
+      case "multi-select":
+        return [field.id, Array.isArray(value)
+          ? value.map(String).filter((option) => field.options?.includes(option))
+          : []];
+      case "checkbox":
+        return [field.id, value === true];
+      case "availability":
+        return [field.id, parseAvailability(value)];
+      default:
+        return [field.id, typeof value === "string" ? value.trim() : ""];
+    }
+  }));
+
+// How an answer reads on review screens and in the dashboard
+export const formatAnswer = (field: FormField, value: FieldValue | undefined): string => {
+  if (field.type === "checkbox") return value === true ? "Yes" : "No";
+  if (field.type === "availability") return summarizeAvailability(value);
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return value ?? "";
+};
+
+const isBlank = (value: FieldValue | undefined) =>
+  value === undefined || value === false ||
+  (Array.isArray(value) ? value.length === 0 : typeof value === "string" && !value.trim());
+
+const checkValidator = (validator: FieldValidator, value: string): string | null => {
+  switch (validator.rule) {
+    case "ritEmail":
+      return validateEmail(value) ? null : validator.message ?? "Please enter a valid RIT email address (@rit.edu)";
+    case "minLength":
+      return value.trim().length >= (validator.value ?? 0)
+        ? null
+        : validator.message ?? `Please write at least ${validator.value} characters`;
+    case "maxLength":
+      return value.trim().length <= (validator.value ?? Infinity)
+        ? null
+        : validator.message ?? `Please keep this under ${validator.value} characters`;
+  }
+};
+
+export const validateAnswers = (fields: FormField[], answers: SignupAnswers): FormErrors => {
+  const errors: FormErrors = {};
+
+  for (const field of fields) {
+    const value = answers[field.id];
+
+    if (isBlank(value)) {
+      if (field.required) {
+        errors[field.id] = field.requiredMessage ?? `${field.label} is required`;
+      }
+      continue;
+    }
+
+    if (field.type === "select" && !field.options?.includes(String(value))) {
+      errors[field.id] = "Please choose one of the options";
+      continue;
+    }
+
+    if (typeof value === "string") {
+      const failed = (field.validators ?? [])
+        .map((validator) => checkValidator(validator, value))
+        .find((message) => message !== null);
+      if (failed) errors[field.id] = failed;
+    }
+  }
+
+  return errors;
+};
+
+export interface FormSchemaErrors {
+  semester?: string;
+  fields?: string;
+  // Problems with individual questions, keyed by field id
+  byField?: Record<string, string>;
+}
+
+const FIELD_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*$/;
+
+// Keys the server keeps on every stored sign up next to the answers
+export const RESERVED_FIELD_IDS = ["id", "status", "expiresAt", "createdAt", "updatedAt", "verifiedAt", "version"];
+
+// Answer key for a new question, e.g. "Favorite food?" -> "favoriteFood"
+export const fieldIdFromLabel = (label: string): string => {
+  const words = label.toLowerCase().replace(/[^a-z0-9 ]/g, " ").split(" ").filter(Boolean).slice(0, 4);
+  const id = words.map((word, index) => index === 0 ? word : word[0].toUpperCase() + word.slice(1)).join("");
+  if (RESERVED_FIELD_IDS.includes(id)) return `${id}Answer`;
+  return /^[a-z]/.test(id) ? id : `question${id}`;
+};
+
+export const validateFormSchema = (kind: SignupFormKind, schema: FormSchema): FormSchemaErrors => {
+  const errors: FormSchemaErrors = {};
+  const byField: Record<string, string> = {};
+
+  if (!isSemester(schema.semester)) {
+    errors.semester = "Semester must look like \"Fall 2025\"";
+  }
+
+  const ids = schema.fields.map((field) => field.id);
+  const missing = DEFAULT_FORM_FIELDS[kind].filter((field) => field.locked && !ids.includes(field.id));
+  if (missing.length > 0) {
+    errors.fields = `These questions can't be removed: ${missing.map((field) => field.label).join(", ")}`;
+  }
+
+  for (const field of schema.fields) {
+    if (!FIELD_ID_PATTERN.test(field.id)) {
+      byField[field.id] = "Answer keys use letters and numbers only and start with a letter";
+    } else if (RESERVED_FIELD_IDS.includes(field.id)) {
+      byField[field.id] = `"${field.id}" is kept for the sign up itself; pick another answer key`;
+    } else if (ids.indexOf(field.id) !== ids.lastIndexOf(field.id)) {
+      byField[field.id] = "Another question already uses this answer key";
+    } else if (!field.label.trim()) {
+      byField[field.id] = "Question text is required";
+    } else if (!(field.type in FIELD_TYPE_LABELS)) {
+      byField[field.id] = "Pick a question type";
+    } else if (
+      (field.type === "select" || field.type === "multi-select") &&
+      (!field.options?.length || field.options.some((option) => !option.trim()) ||
+        new Set(field.options).size !== field.options.length)
+    ) {
+      byField[field.id] = "List at least one option, each on its own line and without repeats";
+    } else if ((field.validators ?? []).some((validator) =>
+      validator.rule !== "ritEmail" && !(Number.isInteger(validator.value) && validator.value! > 0)
+    )) {
+      byField[field.id] = "Character limits must be positive whole numbers";
+    }
+  }
+
+  if (Object.keys(byField).length > 0) {
+    errors.byField = byField;
+  }
+  return errors;
+};
@@ -1,3 +1,5 @@
+// The answers every mentor sign up has; the semester's form schema (utils/formSchema.ts)
+// can add more questions, which are stored alongside these
 export interface FormData {
   email: string;
   name: string;
@@ -5,52 +7,25 @@ export interface FormData {
   year: string;
   mentorGoals: string;
   hobbies: string;
+  availability: string[]; // Weekly slots, see utils/availability.ts
 }
 
-export interface FormErrors {
-  email?: string;
-  name?: string;
-  major?: string;
-  year?: string;
-  mentorGoals?: string;
-  hobbies?: string;
+// The answers every mentee sign up has
+export interface MenteeFormData {
+  email: string;
+  name: string;
+  major: string;
+  year: string;
+  helpWanted: string;
+  mentorTraits: string;
+  hobbies: string;
+  availability: string[];
 }
 
+// Error messages keyed by field id, shared by client and server validation
+export type FormErrors = Partial<Record<string, string>>;
+
 export const validateEmail = (email: string): boolean => {
   const ritEmailRegex = /^[a-zA-Z0-9._%+-]+@rit\.edu$/;
   return ritEmailRegex.test(email);
 };
-
-export const validateForm = (formData: FormData): FormErrors => {
-  const errors: FormErrors = {};
-
-  // Email validation
-  if (!formData.email.trim()) {
-    errors.email = "RIT Email is required";
-  } else if (!validateEmail(formData.email)) {
-    errors.email = "Please enter a valid RIT email address (@rit.edu)";
-  }
-
-  // Required field validation
-  if (!formData.name.trim()) {
-    errors.name = "Name is required";
-  }
-
-  if (!formData.major.trim()) {
-    errors.major = "Major is required";
-  }
-
-  if (!formData.year) {
-    errors.year = "Year is required";
-  }
-
-  if (!formData.mentorGoals.trim()) {
-    errors.mentorGoals = "Please describe what you hope to get out of being a mentor";
-  }
-
-  if (!formData.hobbies.trim()) {
-    errors.hobbies = "Please share some of your hobbies";
-  }
-
-  return errors;
-};
\ No newline at end of file
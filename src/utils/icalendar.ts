@@ -0,0 +1,161 @@
+// iCalendar (RFC 5545) export for events
+// Shared by the edge server's subscription feed and the client's "Add to calendar" download.
+import type { EventRecord } from "./eventSchema.ts";
+import { zonedParts } from "./eventFormatting.ts";
+
+const PRODID = "-//Asian Culture Society//Mentor Sign-Up//EN";
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Stable across edits so calendar apps update the event instead of duplicating it
+export const eventUid = (id: number) => `acs-event-${id}@mentor-sign-up`;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Escape TEXT values (section 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Fold content lines longer than 75 octets (section 3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const folded: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    const limit = folded.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      folded.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  folded.push(current);
+
+  return folded.join("\r\n ");
+};
+
+const utcStamp = (instant: Date | string) =>
+  new Date(instant).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// DATE-TIME in the event's own zone, used with a TZID parameter
+const zonedStamp = (instant: Date | string, timeZone: string) => {
+  const { year, month, day, hour, minute } = zonedParts(instant, timeZone);
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}00`;
+};
+
+// UTC offset of the zone at an instant, in minutes
+const offsetMinutes = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute } = zonedParts(new Date(instant), timeZone);
+  const flooredInstant = Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute) - flooredInstant) / MINUTE_MS);
+};
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+// First minute in (from, to] where the offset differs from the one at `from`
+const findTransition = (from: number, to: number, timeZone: string) => {
+  const before = offsetMinutes(from, timeZone);
+  let low = from;
+  let high = to;
+  while (high - low > MINUTE_MS) {
+    const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (offsetMinutes(middle, timeZone) === before) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return high;
+};
+
+// VTIMEZONE with an observance for every offset change in the years the events span.
+// Observances are listed explicitly rather than as RRULEs, which works for any zone.
+const buildTimeZone = (timeZone: string, events: EventRecord[]): string[] => {
+  const years = events.flatMap((event) => [
+    new Date(event.startsAt).getUTCFullYear(),
+    new Date(event.endsAt).getUTCFullYear(),
+  ]);
+  const start = Date.UTC(Math.min(...years), 0, 1);
+  const end = Date.UTC(Math.max(...years) + 1, 0, 1);
+
+  const observances: { at: number; from: number; to: number }[] = [];
+  const initial = offsetMinutes(start, timeZone);
+  observances.push({ at: start, from: initial, to: initial });
+
+  for (let day = start; day < end; day += DAY_MS) {
+    if (offsetMinutes(day, timeZone) !== offsetMinutes(day + DAY_MS, timeZone)) {
+      const at = findTransition(day, day + DAY_MS, timeZone);
+      observances.push({ at, from: offsetMinutes(at - MINUTE_MS, timeZone), to: offsetMinutes(at, timeZone) });
+    }
+  }
+
+  // The zone's smaller offset is standard time; anything ahead of it is daylight time
+  const standardOffset = Math.min(...observances.map((observance) => observance.to));
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observances.flatMap(({ at, from, to }) => {
+      const kind = to > standardOffset ? "DAYLIGHT" : "STANDARD";
+      // DTSTART is the local time the observance begins, read on the old offset
+      const localStart = utcStamp(new Date(at + from * MINUTE_MS)).replace("Z", "");
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${localStart}`,
+        `TZOFFSETFROM:${formatOffset(from)}`,
+        `TZOFFSETTO:${formatOffset(to)}`,
+        `END:${kind}`,
+      ];
+    }),
+    "END:VTIMEZONE",
+  ];
+};
+
+const buildEvent = (event: EventRecord, stamp: string): string[] => [
+  "BEGIN:VEVENT",
+  `UID:${eventUid(event.id)}`,
+  `DTSTAMP:${stamp}`,
+  // Calendar apps only apply an update to a UID they've seen when its SEQUENCE has gone up
+  `SEQUENCE:${event.sequence ?? 0}`,
+  `DTSTART;TZID=${event.timeZone}:${zonedStamp(event.startsAt, event.timeZone)}`,
+  `DTEND;TZID=${event.timeZone}:${zonedStamp(event.endsAt, event.timeZone)}`,
+  `SUMMARY:${escapeText(event.title)}`,
+  `LOCATION:${escapeText(event.location)}`,
+  `DESCRIPTION:${escapeText(event.description)}`,
+  ...(event.link ? [`URL:${event.link}`] : []),
+  `STATUS:${event.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+  ...(event.updatedAt ? [`LAST-MODIFIED:${utcStamp(event.updatedAt)}`] : []),
+  "END:VEVENT",
+];
+
+// A complete VCALENDAR document for the given events
+export const buildCalendar = (events: EventRecord[], name = "ACS Events"): string => {
+  const stamp = utcStamp(new Date());
+  const timeZones = [...new Set(events.map((event) => event.timeZone))];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...timeZones.flatMap((timeZone) =>
+      buildTimeZone(timeZone, events.filter((event) => event.timeZone === timeZone))
+    ),
+    ...events.flatMap((event) => buildEvent(event, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
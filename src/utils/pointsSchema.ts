@@ -0,0 +1,52 @@
+// Member points shared by the client and the edge server
+// Attending an event earns the points configured for its type; mentors earn a bonus
+// for every event they attend together with one of their mentees.
+import { EVENT_TYPE_LABELS, type EventType } from "./eventSchema.ts";
+
+export interface PointsConfig {
+  perEventType: Record<EventType, number>;
+  mentorMenteeBonus: number;
+}
+
+export interface PointsConfigErrors {
+  perEventType?: string;
+  mentorMenteeBonus?: string;
+}
+
+export const DEFAULT_POINTS_CONFIG: PointsConfig = {
+  perEventType: {
+    gbm: 10,
+    social: 5,
+    cultural: 5,
+    mentorship: 10,
+    workshop: 5,
+    other: 3,
+  },
+  mentorMenteeBonus: 5,
+};
+
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  points: number;
+  eventsAttended: number;
+  bonusPoints: number;
+}
+
+const isPointValue = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 1000;
+
+export const validatePointsConfig = (config: PointsConfig): PointsConfigErrors => {
+  const errors: PointsConfigErrors = {};
+
+  const eventTypes = Object.keys(EVENT_TYPE_LABELS) as EventType[];
+  if (!eventTypes.every((type) => isPointValue(config.perEventType?.[type]))) {
+    errors.perEventType = "Points for each event type must be whole numbers from 0 to 1000";
+  }
+
+  if (!isPointValue(config.mentorMenteeBonus)) {
+    errors.mentorMenteeBonus = "The bonus must be a whole number from 0 to 1000";
+  }
+
+  return errors;
+};
@@ -0,0 +1,83 @@
+// RSVP schema shared by the client and the edge server
+import { validateEmail } from "./formValidation.ts";
+
+export type RsvpResponse = "going" | "maybe" | "not_going";
+
+export const RSVP_RESPONSES: RsvpResponse[] = ["going", "maybe", "not_going"];
+
+export interface RsvpFormData {
+  email: string;
+  response: RsvpResponse;
+}
+
+export interface RsvpRecord extends RsvpFormData {
+  eventId: number;
+  // When this person last switched to "going"; orders the waitlist
+  goingSince?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An RSVP as officers see it, with its place on the waitlist if the event is full
+export interface RsvpEntry extends RsvpRecord {
+  waitlistPosition: number | null;
+}
+
+export interface RsvpCounts {
+  going: number;
+  maybe: number;
+  notGoing: number;
+  waitlisted: number;
+  capacity: number | null;
+}
+
+export interface RsvpErrors {
+  email?: string;
+  response?: string;
+}
+
+export const isRsvpResponse = (value: unknown): value is RsvpResponse =>
+  RSVP_RESPONSES.includes(value as RsvpResponse);
+
+export const validateRsvp = (formData: RsvpFormData): RsvpErrors => {
+  const errors: RsvpErrors = {};
+
+  if (!formData.email.trim()) {
+    errors.email = "Email is required";
+  } else if (!validateEmail(formData.email)) {
+    errors.email = "Please enter a valid RIT email address (@rit.edu)";
+  }
+
+  if (!isRsvpResponse(formData.response)) {
+    errors.response = "Please choose going, maybe or not going";
+  }
+
+  return errors;
+};
+
+// The first `capacity` people to say "going" have a spot; everyone after them waits in order
+export const applyWaitlist = (rsvps: RsvpRecord[], capacity?: number | null): RsvpEntry[] => {
+  const going = rsvps
+    .filter(rsvp => rsvp.response === "going")
+    .sort((a, b) => (a.goingSince ?? a.updatedAt).localeCompare(b.goingSince ?? b.updatedAt));
+
+  const positions = new Map<string, number>();
+  if (capacity) {
+    going.slice(capacity).forEach((rsvp, index) => positions.set(rsvp.email, index + 1));
+  }
+
+  return rsvps.map(rsvp => ({ ...rsvp, waitlistPosition: positions.get(rsvp.email) ?? null }));
+};
+
+export const countRsvps = (rsvps: RsvpRecord[], capacity?: number | null): RsvpCounts => {
+  const entries = applyWaitlist(rsvps, capacity);
+  const waitlisted = entries.filter(entry => entry.waitlistPosition !== null).length;
+
+  return {
+    going: entries.filter(entry => entry.response === "going").length - waitlisted,
+    maybe: entries.filter(entry => entry.response === "maybe").length,
+    notGoing: entries.filter(entry => entry.response === "not_going").length,
+    waitlisted,
+    capacity: capacity ?? null,
+  };
+};
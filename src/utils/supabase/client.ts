@@ -0,0 +1,5 @@
+import { createClient } from "@supabase/supabase-js";
+import { projectId, publicAnonKey } from "./info";
+
+// Browser Supabase client, used for officer sign in (magic links)
+export const supabase = createClient(`https://${projectId}.supabase.co`, publicAnonKey);
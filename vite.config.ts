@@ -3,7 +3,7 @@
   import react from '@vitejs/plugin-react-swc';
   import path from 'path';
 
-  export default defineConfig({
+  export default defineConfig(({ mode }) => ({
     plugins: [react()],
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
@@ -60,5 +60,15 @@
     server: {
       port: 3000,
       open: true,
+      // `npm run dev:local` talks to the edge server started with `deno run`, which serves its
+      // routes from /; plain `npm run dev` uses the Supabase project directly
+      proxy: mode === 'local-server'
+        ? {
+            '/functions/v1': {
+              target: process.env.LOCAL_SERVER_URL ?? 'http://localhost:8000',
+              rewrite: (path) => path.replace(/^\/functions\/v1/, ''),
+            },
+          }
+        : undefined,
     },
-  });
\ No newline at end of file
+  }));
\ No newline at end of file